@@ -18,13 +18,164 @@ chrome.action.onClicked.addListener((tab) => {
   console.log("Extension icon clicked");
 });
 
+// The offscreen document owns the peer connections so they outlive the popup
+const OFFSCREEN_URL = "offscreen.html";
+let creatingOffscreen = null;
+
+async function ensureOffscreenDocument() {
+  if (await chrome.offscreen.hasDocument()) return;
+
+  // Two popups opening at once must not both try to create it
+  if (!creatingOffscreen) {
+    creatingOffscreen = chrome.offscreen
+      .createDocument({
+        url: OFFSCREEN_URL,
+        reasons: [
+          chrome.offscreen.Reason.WEB_RTC,
+          chrome.offscreen.Reason.USER_MEDIA,
+        ],
+        justification: "Keep WebRTC peer connections, calls and screen shares open while the popup is closed",
+      })
+      .finally(() => {
+        creatingOffscreen = null;
+      });
+  }
+  await creatingOffscreen;
+}
+
+// Calls get their own window; the popup is too small and closes on blur.
+// Only one call view is opened, so a second click focuses the existing one.
+const CALL_VIEW_URL = "call.html";
+const CALL_VIEW_WIDTH = 800;
+const CALL_VIEW_HEIGHT = 600;
+
+// Chrome's window and screen picker closes the popup when it takes focus, so the call
+// view shows it instead: on load when opened with PICK_DISPLAY_QUERY, or when told to.
+const PICK_DISPLAY_QUERY = "?pick=display";
+
+async function openCallView(pickDisplay) {
+  const url = chrome.runtime.getURL(CALL_VIEW_URL);
+  const contexts = await chrome.runtime.getContexts({ contextTypes: ["TAB"] });
+  const existing = contexts.find((c) => c.documentUrl.split("?")[0] === url);
+  if (existing && existing.windowId !== -1) {
+    await chrome.windows.update(existing.windowId, { focused: true });
+    if (pickDisplay) {
+      await chrome.runtime.sendMessage({ type: "PICK_DISPLAY" });
+    }
+    return;
+  }
+  await chrome.windows.create({
+    url: pickDisplay ? url + PICK_DISPLAY_QUERY : url,
+    type: "popup",
+    width: CALL_VIEW_WIDTH,
+    height: CALL_VIEW_HEIGHT,
+  });
+}
+
+// Notifications and unread badge for activity while the popup is closed.
+// Per-room settings are written by the popup (src/lib/NotificationSettings.ts).
+const NOTIFICATION_SETTINGS_KEY = "roomNotifications";
+const UNREAD_COUNT_KEY = "unreadCount";
+const POPUP_WIDTH = 336;
+const POPUP_HEIGHT = 540;
+
+// Activity arrives in bursts; handle it one at a time so the unread count stays exact
+let activityQueue = Promise.resolve();
+
+function setUnreadCount(count) {
+  chrome.action.setBadgeText({ text: count > 0 ? (count > 99 ? "99+" : String(count)) : "" });
+  return chrome.storage.session.set({ [UNREAD_COUNT_KEY]: count });
+}
+
+async function handleActivity(activity) {
+  const stored = await chrome.storage.local.get(NOTIFICATION_SETTINGS_KEY);
+  const settings = (stored[NOTIFICATION_SETTINGS_KEY] || {})[activity.roomId] || {};
+  if (settings.muted) return;
+
+  if (activity.kind === "message") {
+    const session = await chrome.storage.session.get(UNREAD_COUNT_KEY);
+    await setUnreadCount((session[UNREAD_COUNT_KEY] || 0) + 1);
+  }
+
+  if (settings.mentionsOnly && !activity.mention) return;
+
+  chrome.notifications.create(`room:${activity.roomId}:${Date.now()}`, {
+    type: "basic",
+    iconUrl: "icon128.png",
+    title: activity.title,
+    message: activity.text,
+    priority: activity.mention ? 2 : 0,
+  });
+}
+
+chrome.action.setBadgeBackgroundColor({ color: "#2563eb" });
+
+// There is only one session, so opening the popup shows the room the notification came from
+chrome.notifications.onClicked.addListener((notificationId) => {
+  chrome.notifications.clear(notificationId);
+  chrome.action.openPopup().catch(() => {
+    // openPopup needs a focused browser window; fall back to a standalone one
+    chrome.windows.create({
+      url: chrome.runtime.getURL("popup.html"),
+      type: "popup",
+      width: POPUP_WIDTH,
+      height: POPUP_HEIGHT,
+    });
+  });
+});
+
 // Listen for messages from popup or content scripts
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log("Background received message:", message);
-
   if (message.type === "GET_TAB_ID") {
     sendResponse({ tabId: sender.tab?.id });
   }
 
+  if (message.type === "SESSION_ACTIVITY") {
+    activityQueue = activityQueue
+      .then(() => handleActivity(message.activity))
+      .catch((error) => console.error("Failed to handle activity:", error));
+    sendResponse({ ok: true });
+  }
+
+  if (message.type === "CLEAR_UNREAD") {
+    activityQueue = activityQueue
+      .then(() => setUnreadCount(0))
+      .catch((error) => console.error("Failed to clear unread count:", error));
+    chrome.notifications.getAll((notifications) => {
+      Object.keys(notifications).forEach((id) => chrome.notifications.clear(id));
+    });
+    sendResponse({ ok: true });
+  }
+
+  if (message.type === "OPEN_CALL_VIEW") {
+    openCallView(message.pickDisplay === true)
+      .then(() => sendResponse({ ok: true }))
+      .catch((error) => {
+        console.error("Failed to open call view:", error);
+        sendResponse({ ok: false, error: String(error) });
+      });
+  }
+
+  // Tab sharing: the popup was opened on the tab, which lets us capture it. Without a
+  // consumer tab the stream ID is usable by our offscreen document, which owns the share.
+  if (message.type === "GET_TAB_STREAM_ID") {
+    chrome.tabCapture
+      .getMediaStreamId({ targetTabId: message.tabId })
+      .then((streamId) => sendResponse({ ok: true, streamId }))
+      .catch((error) => {
+        console.error("Failed to capture tab:", error);
+        sendResponse({ ok: false, error: String(error) });
+      });
+  }
+
+  if (message.type === "ENSURE_OFFSCREEN") {
+    ensureOffscreenDocument()
+      .then(() => sendResponse({ ok: true }))
+      .catch((error) => {
+        console.error("Failed to create offscreen document:", error);
+        sendResponse({ ok: false, error: String(error) });
+      });
+  }
+
   return true; // Keep message channel open for async response
 });
@@ -11,8 +11,13 @@
 const http = require('http');
 const { WebSocketServer } = require('ws');
 const os = require('os');
+const crypto = require('crypto');
 
 const PORT = process.env.PORT || 9876;
+// Sockets that miss a ping are dropped, so a peer that slept or changed networks frees its ID
+const HEARTBEAT_INTERVAL = 30000;
+// Must match src/lib/Identity.ts: peer IDs are the start of the SHA-256 hash of the public key
+const PEER_ID_BYTES = 16;
 
 // Get local IP addresses
 function getLocalIPs() {
@@ -31,6 +36,29 @@ function getLocalIPs() {
 // Room storage
 const rooms = new Map(); // roomId -> Set of { ws, peerId, peerName }
 
+// What a client signs to show it holds the key its peer ID is derived from (see src/lib/Identity.ts)
+function joinProofInput(nonce, peerId) {
+  return `peerbeam-join|${nonce}|${peerId}`;
+}
+
+// publicKey is base64 SPKI; WebCrypto ECDSA signatures are raw r || s
+function provesPeerId(peerId, publicKey, nonce, proof) {
+  try {
+    const spki = Buffer.from(publicKey, 'base64');
+    const id = crypto.createHash('sha256').update(spki).digest('hex').slice(0, PEER_ID_BYTES * 2);
+    if (id !== peerId) return false;
+    const key = crypto.createPublicKey({ key: spki, format: 'der', type: 'spki' });
+    return crypto.verify(
+      'sha256',
+      Buffer.from(joinProofInput(nonce, peerId)),
+      { key, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(proof, 'base64')
+    );
+  } catch {
+    return false;
+  }
+}
+
 // Create HTTP server for health checks
 const httpServer = http.createServer((req, res) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -73,6 +101,13 @@ const wss = new WebSocketServer({ server: httpServer });
 wss.on('connection', (ws) => {
   let currentRoom = null;
   let peerInfo = null;
+  // Issued when a join asks for an ID that is in use; good for one answer
+  let joinNonce = null;
+
+  ws.isAlive = true;
+  ws.on('pong', () => {
+    ws.isAlive = true;
+  });
 
   console.log('New connection');
 
@@ -82,7 +117,36 @@ wss.on('connection', (ws) => {
 
       switch (message.type) {
         case 'join': {
-          const { roomId, peerId, peerName } = message;
+          const { roomId, peerId, peerName, publicKey, proof } = message;
+
+          // An ID still in use, e.g. by our own socket from before a network change, can only be
+          // taken over by proving the key behind it. Anyone else is turned away.
+          const holder = rooms.has(roomId)
+            ? Array.from(rooms.get(roomId)).find(p => p.peerId === peerId && p.ws !== ws)
+            : undefined;
+          if (holder) {
+            if (!proof) {
+              joinNonce = crypto.randomBytes(32).toString('base64');
+              ws.send(JSON.stringify({ type: 'join-challenge', roomId, nonce: joinNonce }));
+              break;
+            }
+            const nonce = joinNonce;
+            joinNonce = null;
+            if (!nonce || typeof publicKey !== 'string' || typeof proof !== 'string' ||
+                !provesPeerId(peerId, publicKey, nonce, proof)) {
+              ws.send(JSON.stringify({ type: 'join-rejected', roomId, reason: 'peer-id-in-use' }));
+              break;
+            }
+
+            rooms.get(roomId).delete(holder);
+            holder.ws.terminate();
+            broadcastToRoom(roomId, {
+              type: 'peer-left',
+              peerId: holder.peerId,
+              peerName: holder.peerName
+            });
+            console.log(`${peerName} proved its key and replaced its old connection in room ${roomId}`);
+          }
 
           // Leave current room if any
           if (currentRoom && rooms.has(currentRoom)) {
@@ -172,7 +236,8 @@ wss.on('connection', (ws) => {
   ws.on('close', () => {
     if (currentRoom && peerInfo && rooms.has(currentRoom)) {
       const room = rooms.get(currentRoom);
-      room.delete(peerInfo);
+      // Already replaced by a connection that proved the same key
+      if (!room.delete(peerInfo)) return;
 
       broadcastToRoom(currentRoom, {
         type: 'peer-left',
@@ -195,6 +260,19 @@ wss.on('connection', (ws) => {
   });
 });
 
+const heartbeat = setInterval(() => {
+  wss.clients.forEach((ws) => {
+    if (!ws.isAlive) {
+      ws.terminate();
+      return;
+    }
+    ws.isAlive = false;
+    ws.ping();
+  });
+}, HEARTBEAT_INTERVAL);
+
+wss.on('close', () => clearInterval(heartbeat));
+
 function broadcastToRoom(roomId, message, excludeWs = null) {
   const room = rooms.get(roomId);
   if (!room) return;
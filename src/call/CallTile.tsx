@@ -0,0 +1,58 @@
+import { useEffect, useRef } from "react";
+
+interface Props {
+  name: string;
+  stream: MediaStream | undefined;
+  // 0 to 1
+  level: number;
+  isSelf: boolean;
+}
+
+// Levels below this are background noise
+const SPEAKING_LEVEL = 0.02;
+
+export function CallTile({ name, stream, level, isSelf }: Props) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== (stream ?? null)) {
+      videoRef.current.srcObject = stream ?? null;
+    }
+  }, [stream]);
+
+  const hasVideo = !!stream && stream.getVideoTracks().some((track) => track.readyState === "live");
+  const speaking = level > SPEAKING_LEVEL;
+
+  return (
+    <div
+      className={`relative aspect-video rounded-lg bg-slate-800 overflow-hidden border-2 transition-colors ${
+        speaking ? "border-green-500" : "border-slate-700"
+      }`}
+    >
+      {/* Also plays the audio; our own is muted so we do not hear ourselves */}
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={isSelf}
+        className={`w-full h-full object-cover ${hasVideo ? "" : "hidden"} ${isSelf ? "-scale-x-100" : ""}`}
+      />
+      {!hasVideo && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="w-16 h-16 rounded-full bg-slate-600 flex items-center justify-center text-white text-2xl font-semibold">
+            {name.charAt(0).toUpperCase()}
+          </div>
+        </div>
+      )}
+      <div className="absolute bottom-0 inset-x-0 flex items-center gap-2 px-2 py-1 bg-black/50">
+        <span className="text-white text-xs truncate flex-1">{isSelf ? `${name} (you)` : name}</span>
+        <div className="w-12 h-1.5 rounded-full bg-slate-600 overflow-hidden" title="Audio level">
+          <div
+            className="h-full bg-green-400 transition-all"
+            style={{ width: `${Math.min(100, Math.round(level * 300))}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useRef, useState } from "react";
+import ReactDOM from "react-dom/client";
+import "../styles/index.css";
+import { MediaBridgeClient } from "../lib/MediaBridge";
+import { chooseDisplay } from "../lib/ScreenCapture";
+import { INITIAL_SESSION_STATE, SessionState } from "../lib/Session";
+import { SessionClient } from "../popup/SessionClient";
+import { CallTile } from "./CallTile";
+import { ScreenStage } from "./ScreenStage";
+
+// The offscreen document that captures the media cannot show a permission prompt,
+// so ask for access here; the grant covers the whole extension
+async function requestMediaAccess(device: "microphone" | "camera") {
+  const stream = await navigator.mediaDevices.getUserMedia(
+    device === "camera" ? { video: true } : { audio: true }
+  );
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+// The popup cannot keep Chrome's picker open, so window and screen shares start here
+async function shareDisplay(client: SessionClient) {
+  const streamId = await chooseDisplay();
+  // An empty ID means the picker was cancelled
+  if (streamId) {
+    client.send({ type: "start-share", source: "display", streamId });
+  }
+}
+
+function CallView() {
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [streams, setStreams] = useState<Map<string, MediaStream>>(new Map());
+  const [levels, setLevels] = useState<Record<string, number>>({});
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<SessionClient | null>(null);
+
+  useEffect(() => {
+    const client = new SessionClient();
+    clientRef.current = client;
+    let bridge: MediaBridgeClient | null = null;
+    // background.js opens us with this query when the popup asked to share a window or screen
+    let pickOnAttach = new URLSearchParams(location.search).get("pick") === "display";
+
+    client.onState(setSession);
+    client.onError(setError);
+    client.onAudioLevels(setLevels);
+    client.onMediaBridge((signal) => {
+      bridge?.handleSignal(signal).catch((e) => console.error("Media bridge signal failed:", e));
+    });
+    // A new offscreen document knows nothing of the old bridge, so start over
+    client.onAttach(() => {
+      bridge?.close();
+      bridge = new MediaBridgeClient((signal) => client.send({ type: "media-bridge", signal }));
+      bridge.onStreams(setStreams);
+      setStreams(new Map());
+      client.send({ type: "media-bridge", signal: null });
+      if (pickOnAttach) {
+        pickOnAttach = false;
+        shareDisplay(client);
+      }
+    });
+
+    // Sent by background.js when we were already open
+    const onMessage = (message: { type: string }) => {
+      if (message.type === "PICK_DISPLAY") shareDisplay(client);
+    };
+    chrome.runtime.onMessage.addListener(onMessage);
+
+    client.attach().catch((e) => setError(e.message));
+
+    return () => {
+      chrome.runtime.onMessage.removeListener(onMessage);
+      client.close();
+      bridge?.close();
+    };
+  }, []);
+
+  const { peerId, userName, roomId, pairing, peers, call, mediaStreams, screenShares } =
+    session ?? INITIAL_SESSION_STATE;
+  const inRoom = !!roomId || !!pairing;
+
+  const nameOf = (id: string) =>
+    id === peerId ? userName : peers.find((p) => p.id === id)?.name ?? "Unknown";
+
+  const join = async (video: boolean) => {
+    setError(null);
+    try {
+      await requestMediaAccess("microphone");
+      if (video) await requestMediaAccess("camera");
+    } catch {
+      setError(`PeerBeam needs access to your microphone${video ? " and camera" : ""} to join the call`);
+      return;
+    }
+    clientRef.current?.send({ type: "start-call", video });
+  };
+
+  const toggleCamera = async () => {
+    if (!call) return;
+    setError(null);
+    if (!call.camera) {
+      try {
+        await requestMediaAccess("camera");
+      } catch {
+        setError("PeerBeam needs access to your camera to turn it on");
+        return;
+      }
+    }
+    clientRef.current?.send({ type: "set-camera", enabled: !call.camera });
+  };
+
+  const participants = Object.keys(mediaStreams);
+  const others = participants.filter((id) => id !== peerId);
+  // Media only travels over our own links; relays and the gossip overlay carry chat alone
+  const unlinked = peers.filter((p) => p.via || p.overlay);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-xl font-bold text-white">
+            {pairing ? "No-server room call" : roomId ? `Call in ${roomId}` : "Call"}
+          </h1>
+          <p className="text-slate-400 text-xs">
+            {participants.length} in the call
+          </p>
+        </div>
+        {inRoom && !screenShares[peerId] && (
+          <button
+            onClick={() => clientRef.current && shareDisplay(clientRef.current)}
+            className="text-slate-300 hover:text-white text-sm font-medium transition-colors"
+          >
+            Share a window or screen
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      {inRoom && unlinked.length > 0 && (
+        <p className="text-amber-400 text-xs mb-3">
+          Calls and screen shares only reach peers you have a direct link to.{" "}
+          {unlinked.map((p) => p.name).join(", ")} will not see or hear you, and you will not see or hear{" "}
+          {unlinked.length === 1 ? "them" : "any of them"}.
+        </p>
+      )}
+
+      {inRoom && Object.keys(screenShares).length > 0 && (
+        <div className="space-y-3 mb-4">
+          {Object.entries(screenShares).map(([id, streamId]) => (
+            <ScreenStage
+              key={id}
+              presenter={nameOf(id)}
+              stream={streams.get(streamId)}
+              isSelf={id === peerId}
+              onStop={() => clientRef.current?.send({ type: "stop-share" })}
+            />
+          ))}
+        </div>
+      )}
+
+      {!session ? (
+        <div className="flex-1 flex items-center justify-center text-slate-400 text-sm">
+          Connecting...
+        </div>
+      ) : !inRoom ? (
+        <div className="flex-1 flex items-center justify-center text-slate-400 text-sm">
+          Join a room in PeerBeam to start a call.
+        </div>
+      ) : !call ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-3">
+          <p className="text-slate-300 text-sm">
+            {others.length > 0
+              ? `${others.map(nameOf).join(", ")} ${others.length === 1 ? "is" : "are"} in the call`
+              : "Nobody is in the call yet"}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => join(false)}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Join with audio
+            </button>
+            <button
+              onClick={() => join(true)}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Join with video
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 grid grid-cols-2 lg:grid-cols-3 gap-3 content-start">
+            {participants.map((id) => (
+              <CallTile
+                key={id}
+                name={nameOf(id)}
+                stream={streams.get(mediaStreams[id])}
+                level={levels[id] ?? 0}
+                isSelf={id === peerId}
+              />
+            ))}
+          </div>
+
+          <div className="flex justify-center gap-3 mt-4">
+            <button
+              onClick={() => clientRef.current?.send({ type: "set-microphone", enabled: !call.microphone })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium text-white transition-colors ${
+                call.microphone ? "bg-slate-700 hover:bg-slate-600" : "bg-yellow-600 hover:bg-yellow-700"
+              }`}
+            >
+              {call.microphone ? "Mute" : "Unmute"}
+            </button>
+            <button
+              onClick={toggleCamera}
+              className={`px-4 py-2 rounded-lg text-sm font-medium text-white transition-colors ${
+                call.camera ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-600 hover:bg-slate-500"
+              }`}
+            >
+              {call.camera ? "Turn camera off" : "Turn camera on"}
+            </button>
+            <button
+              onClick={() => clientRef.current?.send({ type: "end-call" })}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Leave call
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+ReactDOM.createRoot(document.getElementById("root")!).render(<CallView />);
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+
+interface Props {
+  presenter: string;
+  stream: MediaStream | undefined;
+  isSelf: boolean;
+  onStop: () => void;
+}
+
+// A shared tab or screen; view-only, so it has no controls besides stopping our own
+export function ScreenStage({ presenter, stream, isSelf, onStop }: Props) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== (stream ?? null)) {
+      videoRef.current.srcObject = stream ?? null;
+    }
+  }, [stream]);
+
+  return (
+    <div className="rounded-lg bg-black border-2 border-purple-500 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-slate-800">
+        <span className="text-purple-300 text-xs font-medium">
+          {isSelf ? "You are presenting" : `${presenter} is presenting`}
+        </span>
+        {isSelf && (
+          <button onClick={onStop} className="text-red-400 hover:text-red-300 text-xs font-medium">
+            Stop sharing
+          </button>
+        )}
+      </div>
+      {stream ? (
+        <video ref={videoRef} autoPlay playsInline muted className="w-full max-h-[60vh] object-contain" />
+      ) : (
+        <div className="h-40 flex items-center justify-center text-slate-500 text-sm">Loading...</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+// ChatState.ts - Chat message list as held by the UI, and how updates apply to it
+
+import { FileTransferProgress } from "./FileTransfer";
+import { compareMessages } from "./History";
+import { Message, MessageUpdate } from "./Protocol";
+
+export interface ChatMessage extends Message {
+  isOwn: boolean;
+  isSystem?: boolean;
+  fileUrl?: string;
+  transfers?: Record<string, FileTransferProgress>;
+  editedAt?: number;
+  deleted?: boolean;
+  // emoji -> IDs of the peers who reacted with it
+  reactions?: Record<string, string[]>;
+}
+
+// Updates for messages we have not seen yet are parked until they arrive
+const MAX_PENDING_UPDATES = 200;
+
+function applyToMessage(message: ChatMessage, update: MessageUpdate): ChatMessage {
+  switch (update.type) {
+    case "edit": {
+      // Only the author may edit, and a late edit must not undo a newer one
+      if (update.peerId !== message.sender || message.deleted) return message;
+      if (message.editedAt && message.editedAt >= update.editedAt) return message;
+      return { ...message, text: update.text, editedAt: update.editedAt };
+    }
+
+    case "delete": {
+      if (update.peerId !== message.sender) return message;
+      return {
+        ...message,
+        text: "",
+        file: undefined,
+        fileUrl: undefined,
+        reactions: undefined,
+        deleted: true
+      };
+    }
+
+    case "reaction": {
+      if (message.deleted) return message;
+      const reactions = { ...message.reactions };
+      const peers = (reactions[update.emoji] || []).filter((id) => id !== update.peerId);
+      if (update.add) {
+        peers.push(update.peerId);
+      }
+      if (peers.length > 0) {
+        reactions[update.emoji] = peers;
+      } else {
+        delete reactions[update.emoji];
+      }
+      return { ...message, reactions };
+    }
+  }
+}
+
+// Returns the new list, or null when the target message is unknown
+export function applyUpdate(messages: ChatMessage[], update: MessageUpdate): ChatMessage[] | null {
+  const index = messages.findIndex((m) => m.id === update.messageId && !m.isSystem);
+  if (index === -1) return null;
+
+  const next = [...messages];
+  next[index] = applyToMessage(messages[index], update);
+  return next;
+}
+
+export function addPendingUpdate(pending: MessageUpdate[], update: MessageUpdate): MessageUpdate[] {
+  return [...pending, update].slice(-MAX_PENDING_UPDATES);
+}
+
+// Apply any parked updates that target a newly arrived message
+export function takePendingUpdates(
+  message: ChatMessage,
+  pending: MessageUpdate[]
+): { message: ChatMessage; pending: MessageUpdate[] } {
+  let result = message;
+  const remaining: MessageUpdate[] = [];
+  for (const update of pending) {
+    if (update.messageId === message.id) {
+      result = applyToMessage(result, update);
+    } else {
+      remaining.push(update);
+    }
+  }
+  return { message: result, pending: remaining };
+}
+
+// Strip UI state, leaving only what goes over the wire
+export function toMessage(message: ChatMessage): Message {
+  const { id, sender, senderName, text, timestamp, file, replyTo, to } = message;
+  return { id, sender, senderName, text, timestamp, file, replyTo, to };
+}
+
+// Fold synced history into the list. Known IDs are skipped and the result is
+// sorted by timestamp, then ID, so every peer ends up with the same order.
+export function mergeHistory(messages: ChatMessage[], history: ChatMessage[]): ChatMessage[] {
+  const known = new Set(messages.map((m) => m.id));
+  const added = history.filter((m) => !known.has(m.id));
+  if (added.length === 0) return messages;
+  return [...messages, ...added].sort(compareMessages);
+}
+
+// Map every message to the message that started its thread by following
+// reply links upwards. Replies whose parent we never received start their own.
+export function threadRoots(messages: ChatMessage[]): Map<string, string> {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const roots = new Map<string, string>();
+  for (const message of messages) {
+    const visited = new Set<string>();
+    let current = message;
+    while (current.replyTo && !visited.has(current.id)) {
+      visited.add(current.id);
+      const parent = byId.get(current.replyTo);
+      if (!parent) break;
+      current = parent;
+    }
+    roots.set(message.id, current.id);
+  }
+  return roots;
+}
+
+// The root message followed by every reply that leads back to it, in arrival order
+export function getThread(messages: ChatMessage[], rootId: string): ChatMessage[] {
+  const roots = threadRoots(messages);
+  return messages.filter((m) => !m.isSystem && roots.get(m.id) === rootId);
+}
+
+// True if the text contains @name as a whole word, ignoring case
+export function mentionsName(text: string, name: string): boolean {
+  if (!name) return false;
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\W)@${escaped}(?!\\w)`, "i").test(text);
+}
+
+// One-line summary of a message for reply quotes
+export function messagePreview(message: ChatMessage, maxLength = 80): string {
+  if (message.deleted) return "Deleted message";
+  const text = message.file ? `📎 ${message.file.name}` : message.text.replace(/\s+/g, " ");
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
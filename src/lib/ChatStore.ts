@@ -0,0 +1,141 @@
+// ChatStore.ts - Per-room chat history kept in IndexedDB so it survives closing the popup
+
+import { ChatMessage } from "./ChatState";
+import { compareMessages } from "./History";
+
+const DB_NAME = "peerbeam";
+const DB_VERSION = 1;
+const STORE = "messages";
+const ROOM_TIME_INDEX = "byRoomTime";
+
+// Oldest messages beyond this count are dropped from each room
+export const MAX_STORED_MESSAGES = 1000;
+const MAX_SEARCH_RESULTS = 50;
+
+// What we keep on disk: blob URLs and transfer progress die with the popup
+export type StoredMessage = Omit<ChatMessage, "fileUrl" | "transfers" | "isSystem"> & {
+  roomId: string;
+};
+
+export interface SearchResult {
+  roomId: string;
+  message: ChatMessage;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: ["roomId", "id"] });
+        store.createIndex(ROOM_TIME_INDEX, ["roomId", "timestamp"]);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function roomRange(roomId: string): IDBKeyRange {
+  return IDBKeyRange.bound([roomId, -Infinity], [roomId, Infinity]);
+}
+
+function toStored(roomId: string, message: ChatMessage): StoredMessage {
+  const { fileUrl, transfers, isSystem, ...rest } = message;
+  return { ...rest, roomId };
+}
+
+function fromStored(stored: StoredMessage): ChatMessage {
+  const { roomId, ...message } = stored;
+  return message;
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Insert or replace messages, then trim the room down to the retention limit
+export async function saveMessages(roomId: string, messages: ChatMessage[]): Promise<void> {
+  const toSave = messages.filter((m) => !m.isSystem);
+  if (toSave.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  toSave.forEach((m) => store.put(toStored(roomId, m)));
+
+  const index = store.index(ROOM_TIME_INDEX);
+  const countRequest = index.count(roomRange(roomId));
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_STORED_MESSAGES;
+    if (excess <= 0) return;
+    // The index is ordered by timestamp, so the cursor starts at the oldest
+    const cursorRequest = index.openCursor(roomRange(roomId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  };
+
+  await transactionDone(tx);
+}
+
+export async function loadMessages(roomId: string): Promise<ChatMessage[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, "readonly");
+  const request = tx.objectStore(STORE).index(ROOM_TIME_INDEX).getAll(roomRange(roomId));
+  await transactionDone(tx);
+  return (request.result as StoredMessage[]).map(fromStored).sort(compareMessages);
+}
+
+export async function clearRoom(roomId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, "readwrite");
+  const request = tx.objectStore(STORE).index(ROOM_TIME_INDEX).openKeyCursor(roomRange(roomId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    tx.objectStore(STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+}
+
+// Case-insensitive search over every stored room; all words must match. Newest first.
+export async function searchMessages(query: string): Promise<SearchResult[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, "readonly");
+  const results: SearchResult[] = [];
+  const request = tx.objectStore(STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const stored = cursor.value as StoredMessage;
+    const haystack = [stored.text, stored.senderName, stored.file?.name || ""].join(" ").toLowerCase();
+    if (!stored.deleted && terms.every((term) => haystack.includes(term))) {
+      results.push({ roomId: stored.roomId, message: fromStored(stored) });
+    }
+    cursor.continue();
+  };
+  await transactionDone(tx);
+
+  return results
+    .sort((a, b) => compareMessages(b.message, a.message))
+    .slice(0, MAX_SEARCH_RESULTS);
+}
@@ -0,0 +1,74 @@
+// Contacts.ts - Everyone who has proved a signing key to us, kept on this device
+//
+// Peers are recorded the first time we meet them (trust on first use). Marking a contact
+// verified records that its safety number was compared out of band.
+
+import { CONTACT_STORE, openIdentityDatabase, requestResult } from "./Identity";
+
+export interface Contact {
+  // Derived from publicKey, so it identifies the key
+  peerId: string;
+  name: string;
+  publicKey: string;
+  verified: boolean;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+// Known contacts whose name a newly seen key also uses
+export interface ContactCheck {
+  contact: Contact;
+  conflicts: Contact[];
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export async function loadContacts(): Promise<Contact[]> {
+  const db = await openIdentityDatabase();
+  const contacts = await requestResult<Contact[]>(
+    db.transaction(CONTACT_STORE).objectStore(CONTACT_STORE).getAll()
+  );
+  return contacts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Add or refresh a contact after it proved its key, and find others who went by the same name
+export async function recordContact(peerId: string, name: string, publicKey: string): Promise<ContactCheck> {
+  const db = await openIdentityDatabase();
+  const tx = db.transaction(CONTACT_STORE, "readwrite");
+  const store = tx.objectStore(CONTACT_STORE);
+  const contacts = await requestResult<Contact[]>(store.getAll());
+
+  const now = Date.now();
+  const existing = contacts.find((c) => c.peerId === peerId);
+  const contact: Contact = existing
+    ? { ...existing, name, lastSeen: now }
+    : { peerId, name, publicKey, verified: false, firstSeen: now, lastSeen: now };
+  store.put(contact);
+
+  // Once this key is verified, the name clash has been looked into
+  const conflicts = contact.verified
+    ? []
+    : contacts.filter((c) => c.peerId !== peerId && sameName(c.name, name));
+  return { contact, conflicts };
+}
+
+// Contacts a peer that proved no key may be posing as by using their name
+export async function findContactsNamed(name: string): Promise<Contact[]> {
+  const contacts = await loadContacts();
+  return contacts.filter((c) => sameName(c.name, name));
+}
+
+export async function setContactVerified(peerId: string, verified: boolean): Promise<void> {
+  const db = await openIdentityDatabase();
+  const store = db.transaction(CONTACT_STORE, "readwrite").objectStore(CONTACT_STORE);
+  const contact = await requestResult<Contact | undefined>(store.get(peerId));
+  if (!contact) return;
+  await requestResult(store.put({ ...contact, verified }));
+}
+
+export async function removeContact(peerId: string): Promise<void> {
+  const db = await openIdentityDatabase();
+  await requestResult(db.transaction(CONTACT_STORE, "readwrite").objectStore(CONTACT_STORE).delete(peerId));
+}
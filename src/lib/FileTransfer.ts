@@ -0,0 +1,108 @@
+// FileTransfer.ts - Chunked file transfer helpers for data channels
+
+export const FILE_CHUNK_SIZE = 16 * 1024;
+export const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+export const BUFFERED_AMOUNT_LOW_THRESHOLD = 256 * 1024;
+// Both ends hold the whole file in memory, so offers above this are refused
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+export interface FileInfo {
+  transferId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+}
+
+export type FileTransferDirection = "send" | "receive";
+
+export type FileTransferState = "transferring" | "completed" | "cancelled" | "failed";
+
+export interface FileTransferProgress {
+  transferId: string;
+  peerId: string;
+  peerName: string;
+  direction: FileTransferDirection;
+  bytesTransferred: number;
+  totalBytes: number;
+  state: FileTransferState;
+  error?: string;
+}
+
+export interface ReceivedFile {
+  transferId: string;
+  sender: string;
+  senderName: string;
+  name: string;
+  mimeType: string;
+  blob: Blob;
+}
+
+export interface FileChunk {
+  transferId: string;
+  index: number;
+  data: ArrayBuffer;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Binary frame layout: [u8 id length][id bytes][u32 chunk index][chunk data]
+export function encodeChunk(transferId: string, index: number, data: ArrayBuffer): ArrayBuffer {
+  const id = encoder.encode(transferId);
+  const frame = new Uint8Array(1 + id.length + 4 + data.byteLength);
+  frame[0] = id.length;
+  frame.set(id, 1);
+  new DataView(frame.buffer).setUint32(1 + id.length, index);
+  frame.set(new Uint8Array(data), 1 + id.length + 4);
+  return frame.buffer;
+}
+
+export function decodeChunk(frame: ArrayBuffer): FileChunk | null {
+  const bytes = new Uint8Array(frame);
+  if (bytes.length < 5) return null;
+
+  const idLength = bytes[0];
+  const headerLength = 1 + idLength + 4;
+  if (bytes.length < headerLength) return null;
+
+  return {
+    transferId: decoder.decode(bytes.subarray(1, 1 + idLength)),
+    index: new DataView(frame).getUint32(1 + idLength),
+    data: frame.slice(headerLength)
+  };
+}
+
+export function chunkCount(size: number): number {
+  return Math.max(1, Math.ceil(size / FILE_CHUNK_SIZE));
+}
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Resolve once the channel has drained below its low-water mark
+export function waitForBufferedAmountLow(channel: RTCDataChannel): Promise<void> {
+  if (channel.bufferedAmount <= MAX_BUFFERED_AMOUNT) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      channel.removeEventListener("bufferedamountlow", done);
+      channel.removeEventListener("close", done);
+      resolve();
+    };
+    channel.addEventListener("bufferedamountlow", done);
+    channel.addEventListener("close", done);
+  });
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
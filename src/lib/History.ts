@@ -0,0 +1,71 @@
+// History.ts - Recent chat messages kept for peers who join after they were sent
+
+import { Message } from "./Protocol";
+
+// Messages offered to, and requested from, each newly connected peer
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+// Every peer orders history the same way, whatever order it arrived in
+export function compareMessages(a: Message, b: Message): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export class MessageHistory {
+  private messages: Message[] = [];
+  // IDs stay known after they drop off the end so late copies are still ignored
+  private seen: Set<string> = new Set();
+  private limit: number;
+
+  constructor(limit: number = DEFAULT_HISTORY_LIMIT) {
+    this.limit = limit;
+  }
+
+  has(messageId: string): boolean {
+    return this.seen.has(messageId);
+  }
+
+  get(messageId: string): Message | undefined {
+    return this.messages.find((m) => m.id === messageId);
+  }
+
+  // Returns false if the message was already known
+  add(message: Message): boolean {
+    if (this.seen.has(message.id)) return false;
+    this.seen.add(message.id);
+
+    let index = this.messages.length;
+    while (index > 0 && compareMessages(this.messages[index - 1], message) > 0) {
+      index--;
+    }
+    this.messages.splice(index, 0, message);
+    if (this.messages.length > this.limit) {
+      this.messages.splice(0, this.messages.length - this.limit);
+    }
+    return true;
+  }
+
+  // Add a batch from another peer; returns only the messages that were new, in order
+  merge(messages: Message[]): Message[] {
+    return [...messages].sort(compareMessages).filter((message) => this.add(message));
+  }
+
+  edit(messageId: string, sender: string, text: string) {
+    this.messages = this.messages.map((m) =>
+      m.id === messageId && m.sender === sender ? { ...m, text } : m
+    );
+  }
+
+  remove(messageId: string, sender: string) {
+    this.messages = this.messages.filter((m) => m.id !== messageId || m.sender !== sender);
+  }
+
+  recent(limit: number): Message[] {
+    return limit > 0 ? this.messages.slice(-limit) : [];
+  }
+
+  clear() {
+    this.messages = [];
+    this.seen.clear();
+  }
+}
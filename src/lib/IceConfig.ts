@@ -0,0 +1,76 @@
+// IceConfig.ts - User-configurable ICE (STUN/TURN) servers stored in chrome.storage
+
+export interface IceServerEntry {
+  urls: string;
+  username?: string;
+  credential?: string;
+}
+
+export interface IceSettings {
+  servers: IceServerEntry[];
+  // Only use TURN relays so our host and public IPs are never exposed to peers
+  relayOnly: boolean;
+}
+
+const STORAGE_KEY = "iceSettings";
+
+export const DEFAULT_ICE_SETTINGS: IceSettings = {
+  servers: [
+    { urls: "stun:stun.l.google.com:19302" },
+    { urls: "stun:stun1.l.google.com:19302" },
+    { urls: "stun:stun2.l.google.com:19302" },
+  ],
+  relayOnly: false
+};
+
+export function toRTCConfiguration(settings: IceSettings): RTCConfiguration {
+  return {
+    iceServers: settings.servers.map((server) => {
+      const entry: RTCIceServer = { urls: server.urls.trim() };
+      if (server.username) entry.username = server.username;
+      if (server.credential) entry.credential = server.credential;
+      return entry;
+    }),
+    iceTransportPolicy: settings.relayOnly ? "relay" : "all"
+  };
+}
+
+export const DEFAULT_ICE_CONFIG: RTCConfiguration = toRTCConfiguration(DEFAULT_ICE_SETTINGS);
+
+function isTurnUrl(url: string): boolean {
+  return /^turns?:/i.test(url.trim());
+}
+
+// Returns a human-readable problem, or null when the settings are usable
+export function validateIceSettings(settings: IceSettings): string | null {
+  for (const server of settings.servers) {
+    const url = server.urls.trim();
+    if (!/^(stuns?|turns?):/i.test(url)) {
+      return `Invalid ICE server URL: ${url || "(empty)"}`;
+    }
+    if (isTurnUrl(url) && (!server.username || !server.credential)) {
+      return `TURN server ${url} needs a username and credential`;
+    }
+  }
+
+  if (settings.relayOnly && !settings.servers.some((server) => isTurnUrl(server.urls))) {
+    return "Relay-only mode needs at least one TURN server";
+  }
+
+  return null;
+}
+
+export function loadIceSettings(): Promise<IceSettings> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([STORAGE_KEY], (result) => {
+      const stored = result[STORAGE_KEY] as IceSettings | undefined;
+      resolve(stored && Array.isArray(stored.servers) ? stored : DEFAULT_ICE_SETTINGS);
+    });
+  });
+}
+
+export function saveIceSettings(settings: IceSettings): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEY]: settings }, () => resolve());
+  });
+}
@@ -0,0 +1,175 @@
+// Identity.ts - Long-lived signing key that our peer ID is derived from
+//
+// The key pair is generated once and kept in IndexedDB; the private key is stored as a
+// non-extractable CryptoKey, so it never leaves WebCrypto. Peers prove they hold the key
+// in the data channel handshake, which makes a peer ID mean the same person across sessions.
+
+import { fromBase64, toBase64 } from "./RoomCrypto";
+
+const DB_NAME = "peerbeam-identity";
+const DB_VERSION = 1;
+export const KEY_STORE = "keys";
+export const CONTACT_STORE = "contacts";
+const SELF_KEY = "self";
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: "ECDSA", namedCurve: "P-256" };
+const SIGN_ALGORITHM: EcdsaParams = { name: "ECDSA", hash: "SHA-256" };
+
+// Bytes of the public key hash used as the peer ID
+const PEER_ID_BYTES = 16;
+// Digits per key in a safety number; two keys make 60, shown in groups of 5
+const FINGERPRINT_DIGITS = 30;
+
+const encoder = new TextEncoder();
+
+interface StoredKeyPair {
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openIdentityDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(KEY_STORE);
+        request.result.createObjectStore(CONTACT_STORE, { keyPath: "peerId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toHex(data: ArrayBuffer): string {
+  return Array.from(new Uint8Array(data), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Binding both DTLS fingerprints ties the proof to this one connection, so it cannot be replayed
+function proofInput(proverId: string, verifierId: string, fingerprints: string[]): string {
+  const sorted = [...fingerprints].sort().join(",");
+  return `peerbeam-identity|${proverId}|${verifierId}|${sorted}`;
+}
+
+// Signed for the signaling server; server/index.js checks the same string
+function joinProofInput(nonce: string, peerId: string): string {
+  return `peerbeam-join|${nonce}|${peerId}`;
+}
+
+// Peer IDs are the start of the SHA-256 hash of the public key, so they cannot be claimed without it
+export async function peerIdForKey(publicKey: string): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", fromBase64(publicKey));
+  return toHex(hash.slice(0, PEER_ID_BYTES));
+}
+
+// Builds without a key use random IDs, which never look like this
+export function isKeyDerivedId(peerId: string): boolean {
+  return peerId.length === PEER_ID_BYTES * 2 && /^[0-9a-f]+$/.test(peerId);
+}
+
+// True if the key belongs to signerId and signed the data
+export async function verifySignature(
+  publicKey: string,
+  signerId: string,
+  data: string,
+  signature: string
+): Promise<boolean> {
+  try {
+    if (await peerIdForKey(publicKey) !== signerId) return false;
+    const key = await crypto.subtle.importKey("spki", fromBase64(publicKey), KEY_ALGORITHM, false, ["verify"]);
+    return await crypto.subtle.verify(SIGN_ALGORITHM, key, fromBase64(signature), encoder.encode(data));
+  } catch {
+    return false;
+  }
+}
+
+export function verifyIdentityProof(
+  publicKey: string,
+  proverId: string,
+  verifierId: string,
+  fingerprints: string[],
+  proof: string
+): Promise<boolean> {
+  return verifySignature(publicKey, proverId, proofInput(proverId, verifierId, fingerprints), proof);
+}
+
+async function fingerprintDigits(publicKey: string): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", fromBase64(publicKey)));
+  let digits = "";
+  // Five digits from every three bytes, like Signal's safety numbers
+  for (let i = 0; digits.length < FINGERPRINT_DIGITS; i += 3) {
+    const value = (hash[i] << 16) | (hash[i + 1] << 8) | hash[i + 2];
+    digits += (value % 100000).toString().padStart(5, "0");
+  }
+  return digits;
+}
+
+// The same number on both sides; comparing it out of band shows that neither key was swapped
+export async function safetyNumber(ourKey: string, theirKey: string): Promise<string> {
+  const parts = await Promise.all([fingerprintDigits(ourKey), fingerprintDigits(theirKey)]);
+  const digits = parts.sort().join("");
+  return digits.match(/.{5}/g)!.join(" ");
+}
+
+export class Identity {
+  readonly peerId: string;
+  // Base64 SPKI, as sent in the handshake
+  readonly publicKey: string;
+  private privateKey: CryptoKey;
+
+  private constructor(peerId: string, publicKey: string, privateKey: CryptoKey) {
+    this.peerId = peerId;
+    this.publicKey = publicKey;
+    this.privateKey = privateKey;
+  }
+
+  // Load our key pair, creating it on first use
+  static async load(): Promise<Identity> {
+    const db = await openIdentityDatabase();
+    let pair = await requestResult<StoredKeyPair | undefined>(
+      db.transaction(KEY_STORE).objectStore(KEY_STORE).get(SELF_KEY)
+    );
+
+    if (!pair) {
+      // Only the public half is extractable
+      const generated = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ["sign", "verify"]);
+      pair = { privateKey: generated.privateKey, publicKey: generated.publicKey };
+      const tx = db.transaction(KEY_STORE, "readwrite");
+      // Another document may have created one meanwhile; the first one written wins
+      const existing = await requestResult<StoredKeyPair | undefined>(tx.objectStore(KEY_STORE).get(SELF_KEY));
+      if (existing) {
+        pair = existing;
+      } else {
+        tx.objectStore(KEY_STORE).put(pair, SELF_KEY);
+      }
+    }
+
+    const publicKey = toBase64(await crypto.subtle.exportKey("spki", pair.publicKey));
+    return new Identity(await peerIdForKey(publicKey), publicKey, pair.privateKey);
+  }
+
+  prove(verifierId: string, fingerprints: string[]): Promise<string> {
+    return this.sign(proofInput(this.peerId, verifierId, fingerprints));
+  }
+
+  proveJoin(nonce: string): Promise<string> {
+    return this.sign(joinProofInput(nonce, this.peerId));
+  }
+
+  async sign(data: string): Promise<string> {
+    return toBase64(await crypto.subtle.sign(SIGN_ALGORITHM, this.privateKey, encoder.encode(data)));
+  }
+}
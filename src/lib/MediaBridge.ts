@@ -0,0 +1,134 @@
+// MediaBridge.ts - Carries call media from the offscreen document to the call view
+//
+// The peer connections, and so every MediaStream, live in the offscreen document, which
+// cannot show video, and streams cannot cross a runtime port. Each open call view gets a
+// local RTCPeerConnection to the offscreen document instead. The host side forwards our
+// own and every remote track over it; the view side only receives. Signals travel over
+// the session port.
+
+export type BridgeSignal =
+  | { description: RTCSessionDescriptionInit }
+  | { candidate: RTCIceCandidateInit };
+
+// Both ends run in this browser, so no STUN or TURN servers are needed
+const BRIDGE_CONFIG: RTCConfiguration = { iceServers: [] };
+
+// Offscreen side: always makes the offers, since it is the only side with tracks
+export class MediaBridgeHost {
+  private pc: RTCPeerConnection;
+  private sendSignal: (signal: BridgeSignal) => void;
+  // Track ID -> sender forwarding it
+  private senders: Map<string, RTCRtpSender> = new Map();
+
+  constructor(sendSignal: (signal: BridgeSignal) => void) {
+    this.sendSignal = sendSignal;
+    this.pc = new RTCPeerConnection(BRIDGE_CONFIG);
+
+    this.pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.sendSignal({ candidate: event.candidate.toJSON() });
+      }
+    };
+
+    this.pc.onnegotiationneeded = async () => {
+      try {
+        await this.pc.setLocalDescription();
+        this.sendSignal({ description: this.pc.localDescription!.toJSON() });
+      } catch (e) {
+        console.error("Failed to create media bridge offer:", e);
+      }
+    };
+  }
+
+  // Forward exactly these streams, adding and removing tracks as needed
+  setStreams(streams: MediaStream[]) {
+    if (this.pc.signalingState === "closed") return;
+
+    const wanted = new Map<string, { track: MediaStreamTrack; stream: MediaStream }>();
+    streams.forEach((stream) => {
+      stream.getTracks().forEach((track) => wanted.set(track.id, { track, stream }));
+    });
+
+    this.senders.forEach((sender, trackId) => {
+      if (wanted.has(trackId)) return;
+      this.pc.removeTrack(sender);
+      this.senders.delete(trackId);
+    });
+    wanted.forEach(({ track, stream }, trackId) => {
+      if (this.senders.has(trackId)) return;
+      this.senders.set(trackId, this.pc.addTrack(track, stream));
+    });
+  }
+
+  async handleSignal(signal: BridgeSignal) {
+    if ("candidate" in signal) {
+      await this.pc.addIceCandidate(signal.candidate);
+    } else if (signal.description.type === "answer") {
+      await this.pc.setRemoteDescription(signal.description);
+    }
+  }
+
+  close() {
+    this.pc.close();
+    this.senders.clear();
+  }
+}
+
+// Call view side: answers the host's offers and collects the streams it forwards
+export class MediaBridgeClient {
+  private pc: RTCPeerConnection;
+  private sendSignal: (signal: BridgeSignal) => void;
+  // Stream ID -> stream; IDs survive the bridge, so the host can say whose each one is
+  private streams: Map<string, MediaStream> = new Map();
+
+  private onStreamsCallback?: (streams: Map<string, MediaStream>) => void;
+
+  constructor(sendSignal: (signal: BridgeSignal) => void) {
+    this.sendSignal = sendSignal;
+    this.pc = new RTCPeerConnection(BRIDGE_CONFIG);
+
+    this.pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.sendSignal({ candidate: event.candidate.toJSON() });
+      }
+    };
+
+    this.pc.ontrack = (event) => {
+      event.streams.forEach((stream) => {
+        if (this.streams.has(stream.id)) return;
+        this.streams.set(stream.id, stream);
+        stream.onremovetrack = () => {
+          if (stream.getTracks().length === 0) {
+            this.streams.delete(stream.id);
+          }
+          this.notify();
+        };
+      });
+      this.notify();
+    };
+  }
+
+  async handleSignal(signal: BridgeSignal) {
+    if ("candidate" in signal) {
+      await this.pc.addIceCandidate(signal.candidate);
+      return;
+    }
+    if (signal.description.type !== "offer") return;
+    await this.pc.setRemoteDescription(signal.description);
+    await this.pc.setLocalDescription();
+    this.sendSignal({ description: this.pc.localDescription!.toJSON() });
+  }
+
+  close() {
+    this.pc.close();
+    this.streams.clear();
+  }
+
+  private notify() {
+    this.onStreamsCallback?.(new Map(this.streams));
+  }
+
+  onStreams(callback: (streams: Map<string, MediaStream>) => void) {
+    this.onStreamsCallback = callback;
+  }
+}
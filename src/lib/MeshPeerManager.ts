@@ -1,17 +1,83 @@
 // MeshPeerManager.ts - Multi-user P2P mesh network with signaling server
-
-export interface Message {
-  id: string;
-  sender: string;
-  senderName: string;
-  text: string;
-  timestamp: number;
-}
+//
+// Without a server URL the room is serverless: the first link is set up by exchanging
+// pairing codes, and offers and answers for every other link are relayed over the data
+// channels of peers already in the room until the mesh is complete.
+//
+// Rooms larger than the gossip threshold switch to a gossip overlay: each peer links to a
+// few random members only, and chat and control frames are flooded across those links.
+//
+// Calls and screen shares reuse the same connections: their tracks are added to every link
+// and perfect negotiation carries the renegotiation.
+
+import {
+  BUFFERED_AMOUNT_LOW_THRESHOLD,
+  FILE_CHUNK_SIZE,
+  FileInfo,
+  FileTransferDirection,
+  FileTransferProgress,
+  FileTransferState,
+  MAX_FILE_SIZE,
+  ReceivedFile,
+  chunkCount,
+  decodeChunk,
+  encodeChunk,
+  formatFileSize,
+  sha256Hex,
+  waitForBufferedAmountLow,
+} from "./FileTransfer";
+import { RoomCrypto, dtlsFingerprint } from "./RoomCrypto";
+import { DEFAULT_ICE_CONFIG } from "./IceConfig";
+import { DEFAULT_HISTORY_LIMIT, MessageHistory } from "./History";
+import { Identity, isKeyDerivedId, verifyIdentityProof, verifySignature } from "./Identity";
+import { PeerStats, StateTransition, addTransition, readTransportStats } from "./PeerStats";
+import {
+  applyPairingDescription,
+  decodePairingCode,
+  encodePairingCode,
+  waitForIceGathering,
+} from "./PairingCode";
+import {
+  ControlMessage,
+  GOSSIP_THRESHOLD,
+  MAX_GOSSIP_HOPS,
+  MAX_HISTORY_LIMIT,
+  MAX_ROUTE_HOPS,
+  MIN_PROTOCOL_VERSION,
+  MemberInfo,
+  Message,
+  MessageUpdate,
+  PROTOCOL_VERSION,
+  ParsedEnvelope,
+  RelayedSignal,
+  RoutablePayload,
+  SecurityEvent,
+  SendOptions,
+  WirePayload,
+  encodeEnvelope,
+  negotiateVersion,
+  parseEnvelope,
+  relaySigningInput,
+} from "./Protocol";
+
+export type { Message, MessageUpdate, SecurityEvent, SendOptions } from "./Protocol";
+
+export type PeerStatus = "connecting" | "connected" | "reconnecting" | "disconnected";
+
+// "mesh": a direct link to every peer. "gossip": links to a few neighbors, flooding the rest.
+export type Topology = "mesh" | "gossip";
 
 export interface PeerInfo {
   id: string;
   name: string;
   connected: boolean;
+  status: PeerStatus;
+  // Name of the peer relaying for us while there is no direct link
+  via?: string;
+  // Gossip rooms: a member we reach through the overlay rather than a link of our own
+  overlay?: boolean;
+  // Signing key the peer proved it holds over our direct link
+  publicKey?: string;
 }
 
 export interface RoomInfo {
@@ -20,42 +86,170 @@ export interface RoomInfo {
   peers: Array<{ id: string; name: string }>;
 }
 
-const ICE_SERVERS: RTCConfiguration = {
-  iceServers: [
-    { urls: "stun:stun.l.google.com:19302" },
-    { urls: "stun:stun1.l.google.com:19302" },
-  ]
-};
+// Peers that cannot prove knowledge of the room key within this window are dropped
+const AUTH_TIMEOUT = 10000;
+
+// Send at most one "typing" notice per throttle window; remote indicators
+// expire if they are not refreshed within the timeout
+const TYPING_THROTTLE = 3000;
+const TYPING_TIMEOUT = 6000;
+
+// Assume a v1 peer if no handshake arrives within this window
+const HANDSHAKE_TIMEOUT = 3000;
+
+// Largest binary frame we accept: one chunk plus frame header and encryption overhead
+const MAX_BINARY_FRAME_SIZE = FILE_CHUNK_SIZE + 1024;
+
+// Signaling reconnect backoff: 1s, 2s, 4s ... capped at 30s
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
 
-interface PeerConnection {
+// A "disconnected" link often recovers by itself, so wait before restarting ICE
+const ICE_DISCONNECT_GRACE = 5000;
+const MAX_ICE_RESTARTS = 3;
+
+// History is sent in several frames so each stays well under MAX_FRAME_SIZE once encrypted
+const HISTORY_BATCH_BYTES = 64 * 1024;
+
+// Routed and gossip frame IDs remembered for dedup
+const MAX_SEEN_ROUTES = 1000;
+
+// Links each peer opens in a gossip room; others link to it too, so most peers have more
+const GOSSIP_NEIGHBORS = 4;
+
+// Anyone whose chat and control frames reach us, over a link of our own or not
+interface RemotePeer {
   id: string;
   name: string;
+  typingTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface PeerConnection extends RemotePeer {
   pc: RTCPeerConnection;
   channel: RTCDataChannel | null;
   connected: boolean;
+  status: PeerStatus;
+  initiator: boolean;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  iceRestarts: number;
+  iceRestartTimer?: ReturnType<typeof setTimeout>;
+  version: number | null;
+  handshakeTimer?: ReturnType<typeof setTimeout>;
+  authenticated: boolean;
+  challenge?: string;
+  authTimer?: ReturnType<typeof setTimeout>;
+  inbound: Promise<void>;
+  outbound: Promise<void>;
+  // Set up by exchanging pairing codes, which carry its signals until the exchange is done
+  paired: boolean;
+  awaitingCode: boolean;
+  // Media the peer sends us by stream ID: its call and, if it presents, its screen share
+  remoteStreams: Map<string, MediaStream>;
+  screenStreamId: string | null;
+  timeline: StateTransition[];
+  // Set once the peer proves it holds the key its ID is derived from; null for older builds
+  publicKey: string | null;
+}
+
+// Frames that reach us through other peers, signed by their author
+type SignedFrame = Extract<WirePayload, { signature: string }>;
+
+interface OutgoingTransfer {
+  info: FileInfo;
+  data: ArrayBuffer;
+  cancelled: boolean;
+  cancelledPeers: Set<string>;
+}
+
+interface IncomingTransfer {
+  info: FileInfo;
+  peerId: string;
+  senderName: string;
+  chunks: ArrayBuffer[];
+  receivedChunks: number;
+  receivedBytes: number;
 }
 
 export class MeshPeerManager {
   private peerId: string;
   private peerName: string;
+  // Signs our handshakes and every routed or gossip frame we author
+  private identity: Identity;
   private roomId: string = "";
   private ws: WebSocket | null = null;
   private serverUrl: string;
+  private iceConfig: RTCConfiguration;
   private peers: Map<string, PeerConnection> = new Map();
   private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
+  private outgoingTransfers: Map<string, OutgoingTransfer> = new Map();
+  private incomingTransfers: Map<string, IncomingTransfer> = new Map();
+  private roomCrypto: RoomCrypto | null = null;
+  private hasConnected: boolean = false;
+  private closedByUser: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private signalQueue: Promise<void> = Promise.resolve();
+  private lastTypingSent: number = 0;
+  private lastReadSent: string = "";
+  private history: MessageHistory;
+  private historyLimit: number;
+  private serverless: boolean;
+  // Our open pairing invite; its peer is unknown until the answer code is applied
+  private invite: PeerConnection | null = null;
+  // Serverless rooms: peer ID -> the peer we reach it through until a direct link is up
+  private relayVia: Map<string, string> = new Map();
+  // Neighbor ID -> peers that neighbor has a working link to, from its "members" frames
+  private links: Map<string, Set<string>> = new Map();
+  private seenRoutes: Set<string> = new Set();
+  // Signed frames go out in the order they were sent, however long each signature takes
+  private signingQueue: Promise<void> = Promise.resolve();
+  // Everyone the signaling server lists in the room, linked or not
+  private members: Map<string, RemotePeer> = new Map();
+  private topology: Topology = "mesh";
+  // Our microphone and camera while we are in a call
+  private localStream: MediaStream | null = null;
+  private screenStream: MediaStream | null = null;
 
   private onMessageCallback?: (message: Message) => void;
   private onPeerJoinCallback?: (peerId: string, peerName: string) => void;
   private onPeerLeaveCallback?: (peerId: string, peerName: string) => void;
   private onConnectionChangeCallback?: (peers: PeerInfo[]) => void;
+  private onJoinRejectedCallback?: (roomId: string, reason: string) => void;
   private onRoomJoinedCallback?: (roomId: string, peers: Array<{ peerId: string; peerName: string }>) => void;
   private onServerConnectedCallback?: (connected: boolean) => void;
+  private onReconnectingCallback?: (attempt: number, delay: number) => void;
   private onRoomsListCallback?: (rooms: RoomInfo[]) => void;
-
-  constructor(peerName: string, serverUrl: string) {
-    this.peerId = this.generateId();
+  private onFileProgressCallback?: (progress: FileTransferProgress) => void;
+  private onFileReceivedCallback?: (file: ReceivedFile) => void;
+  private onPeerRejectedCallback?: (peerId: string, peerName: string, reason: string) => void;
+  private onSecurityEventCallback?: (event: SecurityEvent) => void;
+  private onTypingCallback?: (peerId: string, peerName: string, active: boolean) => void;
+  private onReadReceiptCallback?: (peerId: string, peerName: string, messageId: string) => void;
+  private onMessageUpdateCallback?: (update: MessageUpdate) => void;
+  private onHistoryCallback?: (messages: Message[]) => void;
+  private onPairedCallback?: (peerId: string, peerName: string) => void;
+  private onTopologyChangeCallback?: (topology: Topology) => void;
+  private onRemoteStreamCallback?: (peerId: string, stream: MediaStream | null) => void;
+  private onScreenShareCallback?: (peerId: string, stream: MediaStream | null) => void;
+  private onPeerIdentityCallback?: (peerId: string, peerName: string, publicKey: string | null) => void;
+
+  constructor(
+    identity: Identity,
+    peerName: string,
+    serverUrl: string,
+    iceConfig: RTCConfiguration = DEFAULT_ICE_CONFIG,
+    historyLimit: number = DEFAULT_HISTORY_LIMIT
+  ) {
+    this.identity = identity;
+    this.peerId = identity.peerId;
     this.peerName = peerName;
     this.serverUrl = serverUrl;
+    this.serverless = !serverUrl;
+    this.iceConfig = iceConfig;
+    this.historyLimit = Math.min(Math.max(historyLimit, 0), MAX_HISTORY_LIMIT);
+    this.history = new MessageHistory(this.historyLimit);
   }
 
   private generateId(): string {
@@ -64,35 +258,52 @@ export class MeshPeerManager {
 
   // Connect to signaling server
   async connect(): Promise<boolean> {
+    this.closedByUser = false;
+    return this.openSocket();
+  }
+
+  private openSocket(): Promise<boolean> {
     return new Promise((resolve) => {
       try {
-        this.ws = new WebSocket(this.serverUrl);
+        const ws = new WebSocket(this.serverUrl);
+        this.ws = ws;
 
-        this.ws.onopen = () => {
+        ws.onopen = () => {
           console.log("Connected to signaling server");
+          this.hasConnected = true;
+          this.reconnectAttempts = 0;
           this.onServerConnectedCallback?.(true);
+
+          // Re-announce ourselves after a reconnect
+          if (this.roomId) {
+            this.sendJoin();
+          }
           resolve(true);
         };
 
-        this.ws.onclose = () => {
+        ws.onclose = () => {
+          if (this.ws !== ws) return;
           console.log("Disconnected from signaling server");
           this.onServerConnectedCallback?.(false);
+          this.scheduleReconnect();
         };
 
-        this.ws.onerror = () => {
+        ws.onerror = () => {
           console.error("WebSocket error");
-          this.onServerConnectedCallback?.(false);
           resolve(false);
         };
 
-        this.ws.onmessage = (event) => {
-          this.handleSignal(JSON.parse(event.data));
+        // Process signals one at a time so negotiation steps never interleave
+        ws.onmessage = (event) => {
+          this.signalQueue = this.signalQueue
+            .then(() => this.handleSignal(JSON.parse(event.data)))
+            .catch((e) => console.error("Failed to handle signal:", e));
         };
 
         // Timeout after 5 seconds
         setTimeout(() => {
-          if (this.ws?.readyState !== WebSocket.OPEN) {
-            this.ws?.close();
+          if (ws.readyState !== WebSocket.OPEN) {
+            ws.close();
             resolve(false);
           }
         }, 5000);
@@ -102,44 +313,127 @@ export class MeshPeerManager {
     });
   }
 
+  private scheduleReconnect() {
+    // Only reconnect sessions that were established and not closed on purpose
+    if (this.closedByUser || !this.hasConnected || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts++;
+    console.log(`Reconnecting to signaling server in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.onReconnectingCallback?.(this.reconnectAttempts, delay);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.openSocket();
+    }, delay);
+  }
+
+  private sendJoin() {
+    this.send({
+      type: "join",
+      roomId: this.roomId,
+      peerId: this.peerId,
+      peerName: this.peerName
+    });
+  }
+
+  // The server still has our ID on another socket, most likely our own from before a
+  // network change; signing its nonce lets us take the ID back
+  private async answerJoinChallenge(roomId: string, nonce: string) {
+    if (roomId !== this.roomId) return;
+    this.send({
+      type: "join",
+      roomId,
+      peerId: this.peerId,
+      peerName: this.peerName,
+      publicKey: this.identity.publicKey,
+      proof: await this.identity.proveJoin(nonce)
+    });
+  }
+
   private send(message: object) {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
     }
   }
 
+  // Negotiation goes through the signaling server, or over data channels in serverless rooms
+  private sendSignal(to: string, signal: RelayedSignal) {
+    if (this.serverless) {
+      this.relaySignal(to, signal);
+    } else if (signal.type === "ice-candidate") {
+      this.send({ type: "ice-candidate", from: this.peerId, to, candidate: signal.candidate });
+    } else {
+      this.send({
+        type: signal.type,
+        from: this.peerId,
+        fromName: this.peerName,
+        to,
+        [signal.type]: signal.description
+      });
+    }
+  }
+
   private async handleSignal(signal: any) {
     switch (signal.type) {
       case "room-joined": {
         this.roomId = signal.roomId;
         this.onRoomJoinedCallback?.(signal.roomId, signal.peers);
+        for (const peer of signal.peers) {
+          this.addMember(peer.peerId, peer.peerName);
+        }
+        this.updateTopology();
+
+        if (this.topology === "gossip") {
+          await this.ensureNeighbors();
+          break;
+        }
 
-        // Create connections to existing peers
+        // Create connections to existing peers, keeping links that survived a reconnect
         for (const peer of signal.peers) {
+          const existing = this.peers.get(peer.peerId);
+          if (existing?.connected) continue;
+          if (existing) {
+            this.removePeer(peer.peerId);
+          }
           await this.createPeerConnection(peer.peerId, peer.peerName, true);
         }
         break;
       }
 
+      case "join-challenge": {
+        await this.answerJoinChallenge(signal.roomId, signal.nonce);
+        break;
+      }
+
+      case "join-rejected": {
+        console.warn(`Signaling server rejected our join: ${signal.reason}`);
+        this.onJoinRejectedCallback?.(signal.roomId, signal.reason);
+        break;
+      }
+
       case "peer-joined": {
         // New peer joined, wait for their offer
+        this.addMember(signal.peerId, signal.peerName);
+        this.updateTopology();
         this.onPeerJoinCallback?.(signal.peerId, signal.peerName);
         break;
       }
 
       case "peer-left": {
+        this.removeMember(signal.peerId);
         this.removePeer(signal.peerId);
         this.onPeerLeaveCallback?.(signal.peerId, signal.peerName);
         break;
       }
 
       case "offer": {
-        await this.handleOffer(signal.from, signal.fromName, signal.offer);
+        await this.handleDescription(signal.from, signal.fromName, signal.offer);
         break;
       }
 
       case "answer": {
-        await this.handleAnswer(signal.from, signal.answer);
+        await this.handleDescription(signal.from, signal.fromName, signal.answer);
         break;
       }
 
@@ -155,243 +449,1764 @@ export class MeshPeerManager {
     }
   }
 
-  private async createPeerConnection(remotePeerId: string, remotePeerName: string, createOffer: boolean): Promise<PeerConnection> {
-    const pc = new RTCPeerConnection(ICE_SERVERS);
+  // The newcomer opens the data channel; negotiation itself is symmetric (perfect negotiation)
+  private async createPeerConnection(remotePeerId: string, remotePeerName: string, createChannel: boolean): Promise<PeerConnection> {
+    const peerConn = this.newPeerConnection(remotePeerId, remotePeerName, createChannel);
+    this.peers.set(remotePeerId, peerConn);
+    return peerConn;
+  }
+
+  // Handlers read the ID and name from peerConn, since an invite learns them only from the answer
+  private newPeerConnection(remotePeerId: string, remotePeerName: string, createChannel: boolean): PeerConnection {
+    const pc = new RTCPeerConnection(this.iceConfig);
 
     const peerConn: PeerConnection = {
       id: remotePeerId,
       name: remotePeerName,
       pc,
       channel: null,
-      connected: false
+      connected: false,
+      status: "connecting",
+      initiator: createChannel,
+      // Exactly one side of every link is polite, decided by comparing peer IDs
+      polite: this.peerId > remotePeerId,
+      makingOffer: false,
+      ignoreOffer: false,
+      iceRestarts: 0,
+      version: null,
+      authenticated: false,
+      inbound: Promise.resolve(),
+      outbound: Promise.resolve(),
+      paired: false,
+      awaitingCode: false,
+      remoteStreams: new Map(),
+      screenStreamId: null,
+      timeline: [],
+      publicKey: null
     };
-
-    this.peers.set(remotePeerId, peerConn);
+    addTransition(peerConn.timeline, "status", "connecting");
 
     pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        this.send({
-          type: "ice-candidate",
-          from: this.peerId,
-          to: remotePeerId,
-          candidate: event.candidate.toJSON()
-        });
+      if (event.candidate && !peerConn.awaitingCode) {
+        this.sendSignal(peerConn.id, { type: "ice-candidate", candidate: event.candidate.toJSON() });
       }
     };
 
     pc.onconnectionstatechange = () => {
       const state = pc.connectionState;
-      console.log(`Connection state with ${remotePeerName}: ${state}`);
+      console.log(`Connection state with ${peerConn.name}: ${state}`);
+      addTransition(peerConn.timeline, "connection", state);
 
       if (state === "connected") {
-        peerConn.connected = true;
-        this.notifyConnectionChange();
-      } else if (state === "disconnected" || state === "failed" || state === "closed") {
-        peerConn.connected = false;
-        this.notifyConnectionChange();
+        clearTimeout(peerConn.iceRestartTimer);
+        peerConn.iceRestarts = 0;
+        if (peerConn.version !== null && (!this.roomCrypto || peerConn.authenticated)) {
+          this.setPeerStatus(peerConn, "connected");
+        }
+      } else if (state === "disconnected") {
+        this.setPeerStatus(peerConn, "reconnecting");
+        clearTimeout(peerConn.iceRestartTimer);
+        peerConn.iceRestartTimer = setTimeout(() => this.restartIce(peerConn), ICE_DISCONNECT_GRACE);
+      } else if (state === "failed") {
+        clearTimeout(peerConn.iceRestartTimer);
+        this.restartIce(peerConn);
+      } else if (state === "closed") {
+        this.setPeerStatus(peerConn, "disconnected");
       }
     };
 
+    pc.oniceconnectionstatechange = () => {
+      addTransition(peerConn.timeline, "ice", pc.iceConnectionState);
+    };
+
+    pc.onsignalingstatechange = () => {
+      addTransition(peerConn.timeline, "signaling", pc.signalingState);
+    };
+
     pc.ondatachannel = (event) => {
       peerConn.channel = event.channel;
       this.setupDataChannel(peerConn);
     };
 
-    if (createOffer) {
-      peerConn.channel = pc.createDataChannel("chat");
-      this.setupDataChannel(peerConn);
+    pc.ontrack = (event) => this.handleRemoteTrack(peerConn, event);
 
-      const offer = await pc.createOffer();
-      await pc.setLocalDescription(offer);
+    // Fires for the initial data channel and for any later channel, track or ICE restart
+    pc.onnegotiationneeded = async () => {
+      // The pairing code is the offer
+      if (peerConn.awaitingCode) return;
+      try {
+        peerConn.makingOffer = true;
+        await pc.setLocalDescription();
+        this.sendSignal(peerConn.id, { type: "offer", description: pc.localDescription!.toJSON() });
+      } catch (e) {
+        console.error(`Failed to create offer for ${peerConn.name}:`, e);
+      } finally {
+        peerConn.makingOffer = false;
+      }
+    };
 
-      this.send({
-        type: "offer",
-        from: this.peerId,
-        fromName: this.peerName,
-        to: remotePeerId,
-        offer: offer
-      });
+    if (createChannel) {
+      peerConn.channel = pc.createDataChannel("chat");
+      this.setupDataChannel(peerConn);
     }
 
+    // Someone joining mid-call hears us straight away
+    const localStream = this.localStream;
+    localStream?.getTracks().forEach((track) => pc.addTrack(track, localStream));
+
     return peerConn;
   }
 
   private setupDataChannel(peer: PeerConnection) {
     if (!peer.channel) return;
 
+    peer.channel.binaryType = "arraybuffer";
+    peer.channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW_THRESHOLD;
+
     peer.channel.onopen = () => {
       console.log(`Data channel open with ${peer.name}`);
-      peer.connected = true;
-      this.notifyConnectionChange();
+      addTransition(peer.timeline, "channel", "open");
+      this.sendHandshake(peer);
+
+      // v1 builds never send a handshake
+      clearTimeout(peer.handshakeTimer);
+      peer.handshakeTimer = setTimeout(() => this.completeHandshake(peer, 1), HANDSHAKE_TIMEOUT);
     };
 
     peer.channel.onclose = () => {
       console.log(`Data channel closed with ${peer.name}`);
+      addTransition(peer.timeline, "channel", "closed");
       peer.connected = false;
+      peer.status = "disconnected";
+      addTransition(peer.timeline, "status", "disconnected");
+      clearTimeout(peer.handshakeTimer);
+      clearTimeout(peer.authTimer);
+      this.setRemoteTyping(peer, false);
+      this.failIncomingTransfers(peer.id);
       this.notifyConnectionChange();
+      this.announceMembers();
+
+      // Without a server nobody else announces departures
+      if (this.serverless && this.peers.get(peer.id) === peer) {
+        this.removePeer(peer.id);
+        if (peer.version !== null) {
+          this.onPeerLeaveCallback?.(peer.id, peer.name);
+        }
+      }
     };
 
+    // Decryption is async, so chain handlers to keep messages in order
     peer.channel.onmessage = (event) => {
-      try {
-        const message: Message = JSON.parse(event.data);
-        this.onMessageCallback?.(message);
-      } catch (e) {
-        console.error("Failed to parse message:", e);
-      }
+      peer.inbound = peer.inbound
+        .then(() => this.handleChannelData(peer, event.data))
+        .catch((e) => console.error("Failed to handle message:", e));
     };
   }
 
-  private async handleOffer(fromId: string, fromName: string, offer: RTCSessionDescriptionInit) {
-    let peer = this.peers.get(fromId);
-
-    if (!peer) {
-      peer = await this.createPeerConnection(fromId, fromName, false);
+  private async handleChannelData(peer: PeerConnection, raw: string | ArrayBuffer) {
+    if (raw instanceof ArrayBuffer) {
+      if (raw.byteLength > MAX_BINARY_FRAME_SIZE || (peer.version ?? 1) < 2) {
+        console.warn(`Dropping unexpected binary frame from ${peer.name}`);
+        return;
+      }
+      if (this.roomCrypto) {
+        if (!peer.authenticated) return;
+        raw = await this.roomCrypto.decrypt(raw);
+      }
+      await this.handleFileChunk(peer, raw);
+      return;
     }
 
-    await peer.pc.setRemoteDescription(offer);
-
-    // Apply any pending ICE candidates
-    const pending = this.pendingCandidates.get(fromId) || [];
-    for (const candidate of pending) {
-      await peer.pc.addIceCandidate(new RTCIceCandidate(candidate));
+    const envelope = parseEnvelope(raw);
+    if (!envelope) {
+      console.warn(`Dropping malformed message from ${peer.name}`);
+      return;
     }
-    this.pendingCandidates.delete(fromId);
+    await this.handlePayload(peer, envelope, false);
+  }
 
-    const answer = await peer.pc.createAnswer();
-    await peer.pc.setLocalDescription(answer);
+  // Queued on the outbound chain so nothing we send overtakes it while the proof is signed
+  private sendHandshake(peer: PeerConnection) {
+    peer.outbound = peer.outbound
+      .then(async () => {
+        const handshake: Extract<WirePayload, { kind: "handshake" }> = {
+          kind: "handshake",
+          id: this.peerId,
+          name: this.peerName,
+          minVersion: MIN_PROTOCOL_VERSION,
+          maxVersion: PROTOCOL_VERSION,
+          publicKey: this.identity.publicKey,
+          proof: await this.identity.prove(peer.id, this.dtlsFingerprints(peer))
+        };
+        this.sendPlain(peer, handshake);
+      })
+      .catch((e) => console.error(`Failed to send handshake to ${peer.name}:`, e));
+  }
 
-    this.send({
-      type: "answer",
-      from: this.peerId,
-      fromName: this.peerName,
-      to: fromId,
-      answer: answer
-    });
+  private dtlsFingerprints(peer: PeerConnection): string[] {
+    return [
+      dtlsFingerprint(peer.pc.localDescription?.sdp),
+      dtlsFingerprint(peer.pc.remoteDescription?.sdp)
+    ];
   }
 
-  private async handleAnswer(fromId: string, answer: RTCSessionDescriptionInit) {
-    const peer = this.peers.get(fromId);
-    if (peer) {
-      await peer.pc.setRemoteDescription(answer);
+  private async handlePayload(peer: PeerConnection, envelope: ParsedEnvelope, decrypted: boolean) {
+    const { version, payload } = envelope;
+
+    switch (payload.kind) {
+      case "handshake": {
+        if (payload.id !== peer.id) {
+          this.reportSecurityEvent(peer, "identity-mismatch",
+            `${peer.name} announced ID ${payload.id} on a channel negotiated for ${peer.id}`);
+          this.rejectPeer(peer, "Handshake identity does not match signaling");
+          return;
+        }
+        if (payload.publicKey !== undefined) {
+          const valid = payload.proof !== undefined && await verifyIdentityProof(
+            payload.publicKey, peer.id, this.peerId, this.dtlsFingerprints(peer), payload.proof
+          );
+          if (!valid) {
+            this.reportSecurityEvent(peer, "identity-mismatch",
+              `${peer.name} could not prove it holds the key for ID ${peer.id}`);
+            this.rejectPeer(peer, "Invalid identity proof");
+            return;
+          }
+          peer.publicKey = payload.publicKey;
+        } else if (isKeyDerivedId(peer.id)) {
+          // The ID stands for a key, so whoever holds it could prove it; this peer did not
+          this.reportSecurityEvent(peer, "identity-mismatch",
+            `${peer.name} claimed ID ${peer.id} without proving it holds the key`);
+          this.rejectPeer(peer, "Missing identity proof");
+          return;
+        }
+        const negotiated = negotiateVersion(payload.minVersion, payload.maxVersion);
+        if (negotiated === null) {
+          this.rejectPeer(peer, `Incompatible protocol version (v${payload.minVersion}-v${payload.maxVersion})`);
+          return;
+        }
+        this.completeHandshake(peer, negotiated);
+        return;
+      }
+
+      case "auth-challenge":
+      case "auth-response": {
+        await this.handleAuth(peer, payload);
+        return;
+      }
 
-      // Apply any pending ICE candidates
-      const pending = this.pendingCandidates.get(fromId) || [];
-      for (const candidate of pending) {
-        await peer.pc.addIceCandidate(new RTCIceCandidate(candidate));
+      case "encrypted": {
+        if (!this.roomCrypto || !peer.authenticated) {
+          console.warn(`Dropping unauthenticated message from ${peer.name}`);
+          return;
+        }
+        const inner = parseEnvelope(await this.roomCrypto.decryptText(payload.data));
+        if (!inner || inner.payload.kind === "encrypted") {
+          console.warn(`Dropping malformed message from ${peer.name}`);
+          return;
+        }
+        await this.handlePayload(peer, inner, true);
+        return;
       }
-      this.pendingCandidates.delete(fromId);
     }
-  }
 
-  private async handleIceCandidate(fromId: string, candidate: RTCIceCandidateInit) {
-    const peer = this.peers.get(fromId);
-    if (peer && peer.pc.remoteDescription) {
-      await peer.pc.addIceCandidate(new RTCIceCandidate(candidate));
-    } else {
-      // Queue candidate if remote description not set yet
-      if (!this.pendingCandidates.has(fromId)) {
-        this.pendingCandidates.set(fromId, []);
+    // Everything below carries room content and must arrive encrypted in passphrase rooms
+    if (this.roomCrypto && !decrypted) {
+      console.warn(`Dropping unencrypted message from ${peer.name}`);
+      return;
+    }
+
+    // A v1 peer spoke before our handshake timeout expired
+    if (version === 1 && peer.version === null) {
+      this.completeHandshake(peer, 1);
+    }
+
+    switch (payload.kind) {
+      case "chat":
+      case "control": {
+        this.handleContent(peer, payload);
+        break;
+      }
+
+      case "history-request": {
+        this.sendHistory(peer, payload.limit);
+        break;
+      }
+
+      case "history": {
+        this.handleHistory(peer, payload.messages);
+        break;
+      }
+
+      case "signal": {
+        this.handleRelayedSignal(peer, payload);
+        break;
+      }
+
+      case "members": {
+        await this.handleMembers(peer, payload.peers);
+        break;
+      }
+
+      case "routed": {
+        await this.handleRouted(peer, payload);
+        break;
+      }
+
+      case "gossip": {
+        await this.handleGossip(peer, payload);
+        break;
       }
-      this.pendingCandidates.get(fromId)!.push(candidate);
     }
   }
 
-  private removePeer(peerId: string) {
-    const peer = this.peers.get(peerId);
-    if (peer) {
-      peer.channel?.close();
-      peer.pc.close();
-      this.peers.delete(peerId);
-      this.notifyConnectionChange();
+  // Chat and control from a peer, whether it came over that peer's link or was relayed
+  private handleContent(peer: RemotePeer, payload: RoutablePayload) {
+    if (payload.kind === "control") {
+      this.handleControl(peer, payload.control);
+      return;
     }
-  }
 
-  private notifyConnectionChange() {
-    const peerList: PeerInfo[] = Array.from(this.peers.values()).map(p => ({
-      id: p.id,
-      name: p.name,
-      connected: p.connected
-    }));
-    this.onConnectionChangeCallback?.(peerList);
+    // Identity comes from the connection, never from the payload
+    if (payload.message.sender !== peer.id) {
+      this.reportSecurityEvent(peer, "spoofed-sender",
+        `${peer.name} sent a message claiming to be from ${payload.message.senderName}`);
+      return;
+    }
+    // A private message meant for someone else was misrouted or forged
+    if (payload.message.to !== undefined && payload.message.to !== this.peerId) {
+      console.warn(`Dropping private message from ${peer.name} addressed to another peer`);
+      return;
+    }
+    const message: Message = { ...payload.message, senderName: peer.name };
+    this.setRemoteTyping(peer, false);
+    // Already delivered through another peer's history
+    if (!this.history.add(message)) return;
+    if (message.file) {
+      this.startIncomingTransfer(peer, message);
+    }
+    this.onMessageCallback?.(message);
   }
 
-  // Public API
+  private handleControl(peer: RemotePeer, control: ControlMessage) {
+    switch (control.type) {
+      case "file-cancel": {
+        this.handleFileCancel(peer, control.transferId);
+        break;
+      }
 
-  joinRoom(roomId: string) {
-    this.roomId = roomId;
-    this.send({
-      type: "join",
-      roomId,
-      peerId: this.peerId,
-      peerName: this.peerName
-    });
+      case "typing": {
+        this.setRemoteTyping(peer, control.active);
+        break;
+      }
+
+      case "read": {
+        this.onReadReceiptCallback?.(peer.id, peer.name, control.messageId);
+        break;
+      }
+
+      case "screen-share": {
+        // Only direct neighbors send us media
+        const link = this.peers.get(peer.id);
+        if (link) {
+          // The old share's tracks are removed after this notice; do not mistake them for call media
+          if (link.screenStreamId && link.screenStreamId !== control.streamId) {
+            link.remoteStreams.delete(link.screenStreamId);
+          }
+          link.screenStreamId = control.streamId;
+          this.notifyRemoteMedia(link);
+        }
+        break;
+      }
+
+      // Whether the peer may change the message is decided by whoever holds it
+      case "edit":
+      case "delete":
+      case "reaction": {
+        if (control.type === "edit") {
+          this.history.edit(control.messageId, peer.id, control.text);
+        } else if (control.type === "delete") {
+          this.history.remove(control.messageId, peer.id);
+        }
+        this.onMessageUpdateCallback?.({ ...control, peerId: peer.id });
+        break;
+      }
+    }
   }
 
-  getRooms() {
-    this.send({ type: "get-rooms" });
+  private setRemoteTyping(peer: RemotePeer, active: boolean) {
+    const wasTyping = peer.typingTimer !== undefined;
+    clearTimeout(peer.typingTimer);
+    peer.typingTimer = undefined;
+
+    if (active) {
+      peer.typingTimer = setTimeout(() => this.setRemoteTyping(peer, false), TYPING_TIMEOUT);
+    }
+    if (active || wasTyping) {
+      this.onTypingCallback?.(peer.id, peer.name, active);
+    }
   }
 
-  sendMessage(text: string): Message {
-    const message: Message = {
-      id: this.generateId(),
-      sender: this.peerId,
-      senderName: this.peerName,
-      text,
-      timestamp: Date.now()
-    };
+  private broadcastControl(control: ControlMessage) {
+    this.broadcast({ kind: "control", control });
+  }
 
-    // Send to all connected peers
-    this.peers.forEach((peer) => {
-      if (peer.channel && peer.channel.readyState === "open") {
-        peer.channel.send(JSON.stringify(message));
-      }
-    });
+  // Controls about a private message go only to the other side of the conversation
+  private sendMessageControl(messageId: string, control: ControlMessage) {
+    const message = this.history.get(messageId);
+    if (!message?.to) {
+      this.broadcastControl(control);
+      return;
+    }
+    const peer = this.peers.get(message.sender === this.peerId ? message.to : message.sender);
+    if (peer && this.isPeerReady(peer)) {
+      this.sendPayload(peer, { kind: "control", control });
+    }
+  }
 
-    return message;
+  // Whether a message may be sent to this peer in history: public ones, or private ones addressed to it
+  private isVisibleTo(message: Message, peerId: string): boolean {
+    return message.to === undefined || message.to === peerId;
   }
 
-  disconnect() {
+  // Mesh rooms send to every peer, routing around broken links; gossip rooms flood the overlay
+  private broadcast(payload: RoutablePayload) {
+    if (this.topology === "gossip") {
+      this.gossip(payload);
+      return;
+    }
     this.peers.forEach((peer) => {
-      peer.channel?.close();
-      peer.pc.close();
+      if (this.isPeerReady(peer)) {
+        this.sendPayload(peer, payload);
+      }
     });
-    this.peers.clear();
-    this.ws?.close();
-    this.ws = null;
+    this.relayToUnreachable(payload);
   }
 
-  // Callbacks
-  onMessage(callback: (message: Message) => void) {
-    this.onMessageCallback = callback;
-  }
+  // Called once the remote protocol version is known
+  private completeHandshake(peer: PeerConnection, version: number) {
+    clearTimeout(peer.handshakeTimer);
+    if (peer.version !== null) return;
 
-  onPeerJoin(callback: (peerId: string, peerName: string) => void) {
-    this.onPeerJoinCallback = callback;
-  }
+    peer.version = version;
+    console.log(`Using protocol v${version} with ${peer.name}`);
 
-  onPeerLeave(callback: (peerId: string, peerName: string) => void) {
-    this.onPeerLeaveCallback = callback;
+    if (this.roomCrypto) {
+      if (version < 2) {
+        this.rejectPeer(peer, "Peer runs an older PeerBeam without encrypted rooms");
+        return;
+      }
+      this.startAuth(peer);
+      return;
+    }
+
+    this.handlePeerReady(peer);
   }
 
-  onConnectionChange(callback: (peers: PeerInfo[]) => void) {
-    this.onConnectionChangeCallback = callback;
+  // Called once a link has finished its handshake and, in passphrase rooms, authentication
+  private handlePeerReady(peer: PeerConnection) {
+    this.setPeerStatus(peer, "connected");
+    this.onPeerIdentityCallback?.(peer.id, peer.name, peer.publicKey);
+    this.requestHistory(peer);
+
+    // Name the stream first, so its tracks are not taken for call media
+    if (this.screenStream) {
+      this.sendPayload(peer, { kind: "control", control: { type: "screen-share", streamId: this.screenStream.id } });
+      this.addScreenTracks(peer);
+    }
+
+    if (this.serverless) {
+      this.onPeerJoinCallback?.(peer.id, peer.name);
+      if (peer.paired) {
+        this.onPairedCallback?.(peer.id, peer.name);
+      }
+    }
   }
 
-  onRoomJoined(callback: (roomId: string, peers: Array<{ peerId: string; peerName: string }>) => void) {
-    this.onRoomJoinedCallback = callback;
+  // Send a payload in the clear; only used for the handshake and auth steps
+  private sendPlain(peer: PeerConnection, payload: WirePayload) {
+    if (peer.channel?.readyState === "open") {
+      peer.channel.send(encodeEnvelope(payload));
+    }
   }
 
-  onServerConnected(callback: (connected: boolean) => void) {
-    this.onServerConnectedCallback = callback;
+  // Send a payload in the peer's negotiated protocol version
+  private sendPayload(peer: PeerConnection, payload: WirePayload): Promise<void> {
+    const version = peer.version ?? PROTOCOL_VERSION;
+    const encoded = encodeEnvelope(payload, version);
+    if (!encoded) {
+      // Nothing an older peer could understand
+      return Promise.resolve();
+    }
+    return this.sendToPeer(peer, encoded);
   }
 
-  onRoomsList(callback: (rooms: RoomInfo[]) => void) {
-    this.onRoomsListCallback = callback;
+  // Queue a frame for a peer, encrypting it when the room has a passphrase
+  private sendToPeer(peer: PeerConnection, frame: string | ArrayBuffer): Promise<void> {
+    peer.outbound = peer.outbound
+      .then(async () => {
+        let data: string | ArrayBuffer = frame;
+        if (this.roomCrypto) {
+          data = typeof frame === "string"
+            ? encodeEnvelope({ kind: "encrypted", data: await this.roomCrypto.encryptText(frame) })
+            : await this.roomCrypto.encrypt(frame);
+        }
+        if (peer.channel?.readyState !== "open") return;
+        // send() has one overload per type, and none of them takes the union
+        peer.channel.send(data as string);
+      })
+      .catch((e) => console.error(`Failed to send to ${peer.name}:`, e));
+    return peer.outbound;
   }
 
-  // Getters
-  getPeerId(): string {
-    return this.peerId;
+  private isPeerReady(peer: PeerConnection): boolean {
+    return peer.channel?.readyState === "open" &&
+      peer.version !== null &&
+      (!this.roomCrypto || peer.authenticated);
+  }
+
+  // Passphrase handshake
+
+  private startAuth(peer: PeerConnection) {
+    peer.authenticated = false;
+    peer.challenge = this.roomCrypto!.createChallenge();
+    this.sendPlain(peer, { kind: "auth-challenge", challenge: peer.challenge });
+
+    clearTimeout(peer.authTimer);
+    peer.authTimer = setTimeout(() => {
+      if (!peer.authenticated) {
+        this.rejectPeer(peer, "Did not prove knowledge of the room passphrase");
+      }
+    }, AUTH_TIMEOUT);
+  }
+
+  private async handleAuth(
+    peer: PeerConnection,
+    payload: Extract<WirePayload, { kind: "auth-challenge" | "auth-response" }>
+  ) {
+    if (!this.roomCrypto) {
+      // We have no passphrase, so we cannot answer; the other side will drop us
+      return;
+    }
+
+    const fingerprints = this.dtlsFingerprints(peer);
+
+    if (payload.kind === "auth-challenge") {
+      const proof = await this.roomCrypto.prove(payload.challenge, this.peerId, peer.id, fingerprints);
+      this.sendPlain(peer, { kind: "auth-response", proof });
+      return;
+    }
+
+    if (!peer.challenge) return;
+
+    const valid = await this.roomCrypto.verify(peer.challenge, peer.id, this.peerId, fingerprints, payload.proof);
+    peer.challenge = undefined;
+
+    if (!valid) {
+      this.rejectPeer(peer, "Invalid room passphrase proof");
+      return;
+    }
+
+    console.log(`Authenticated ${peer.name}`);
+    clearTimeout(peer.authTimer);
+    peer.authenticated = true;
+    this.handlePeerReady(peer);
+  }
+
+  private reportSecurityEvent(peer: RemotePeer, type: SecurityEvent["type"], detail: string) {
+    console.warn(`Security event from ${peer.name}: ${detail}`);
+    this.onSecurityEventCallback?.({
+      type,
+      peerId: peer.id,
+      peerName: peer.name,
+      detail,
+      timestamp: Date.now()
+    });
+  }
+
+  private rejectPeer(peer: PeerConnection, reason: string) {
+    console.warn(`Rejecting ${peer.name}: ${reason}`);
+    this.onPeerRejectedCallback?.(peer.id, peer.name, reason);
+    // Not someone to pick as a gossip neighbor again
+    this.removeMember(peer.id);
+    this.removePeer(peer.id);
+  }
+
+  // History sync
+
+  // Ask a newly connected peer for what was said before we arrived
+  private requestHistory(peer: PeerConnection) {
+    if (peer.version! < 2 || this.historyLimit === 0) return;
+    this.sendPayload(peer, { kind: "history-request", limit: this.historyLimit });
+  }
+
+  private sendHistory(peer: PeerConnection, limit: number) {
+    // Peers only take our own messages from us; everyone else speaks for themselves
+    const messages = this.history.recent(Math.min(limit, this.historyLimit))
+      .filter((message) => message.sender === this.peerId && this.isVisibleTo(message, peer.id));
+
+    let batch: Message[] = [];
+    let batchBytes = 0;
+    for (const message of messages) {
+      const size = JSON.stringify(message).length;
+      if (batch.length > 0 && batchBytes + size > HISTORY_BATCH_BYTES) {
+        this.sendPayload(peer, { kind: "history", messages: batch });
+        batch = [];
+        batchBytes = 0;
+      }
+      batch.push(message);
+      batchBytes += size;
+    }
+    if (batch.length > 0) {
+      this.sendPayload(peer, { kind: "history", messages: batch });
+    }
+  }
+
+  private handleHistory(peer: PeerConnection, messages: Message[]) {
+    const accepted = messages.filter((message) => {
+      // Our own messages are known already; an unknown one is forged
+      if (message.sender === this.peerId && !this.history.has(message.id)) {
+        this.reportSecurityEvent(peer, "spoofed-sender",
+          `${peer.name} sent history claiming a message from us`);
+        return false;
+      }
+      // Nothing proves who wrote a synced message, so a peer may only hand us its own.
+      // Older builds also pass on other people's messages; those are dropped quietly.
+      if (message.sender !== peer.id) return false;
+      return message.to === undefined || message.to === this.peerId;
+    }).map((message) => ({ ...message, senderName: peer.name }));
+
+    const added = this.history.merge(accepted);
+    if (added.length > 0) {
+      console.log(`Synced ${added.length} earlier message(s) from ${peer.name}`);
+      this.onHistoryCallback?.(added);
+    }
+  }
+
+  // Serverless signaling
+
+  private relaySignal(to: string, signal: RelayedSignal) {
+    const payload: WirePayload = { kind: "signal", from: this.peerId, fromName: this.peerName, to, signal };
+    const direct = this.peers.get(to);
+    const relay = direct && this.isPeerReady(direct) ? direct : this.peers.get(this.relayVia.get(to) ?? "");
+    if (!relay || !this.isPeerReady(relay)) {
+      console.warn(`No route to ${to}, dropping ${signal.type}`);
+      return;
+    }
+    this.sendPayload(relay, payload);
+  }
+
+  private handleRelayedSignal(peer: PeerConnection, payload: Extract<WirePayload, { kind: "signal" }>) {
+    // With a server, negotiation only ever comes from the server
+    if (!this.serverless) return;
+
+    if (payload.to !== this.peerId) {
+      // Relay for the peer that wrote it, and only one hop, so origins cannot be forged
+      const target = this.peers.get(payload.to);
+      if (payload.from !== peer.id || !target || !this.isPeerReady(target)) {
+        console.warn(`Not relaying ${payload.signal.type} from ${peer.name} to ${payload.to}`);
+        return;
+      }
+      this.sendPayload(target, payload);
+      return;
+    }
+
+    const { from, fromName, signal } = payload;
+    if (from === this.peerId) return;
+    if (from !== peer.id) {
+      // Answer through the same peer until we have a link of our own
+      this.relayVia.set(from, peer.id);
+    }
+
+    this.signalQueue = this.signalQueue
+      .then(() => signal.type === "ice-candidate"
+        ? this.handleIceCandidate(from, signal.candidate)
+        : this.handleDescription(from, fromName, signal.description))
+      .catch((e) => console.error("Failed to handle relayed signal:", e));
+  }
+
+  // Tell every peer who else we have a working link to. Serverless rooms use this to
+  // link up new members; every room uses it to route around links that are down.
+  private announceMembers() {
+    const ready = Array.from(this.peers.values()).filter((p) => p.connected && this.isPeerReady(p));
+    ready.forEach((peer) => {
+      const members: MemberInfo[] = ready
+        .filter((p) => p !== peer)
+        .map((p) => ({ id: p.id, name: p.name }));
+      this.sendPayload(peer, { kind: "members", peers: members });
+    });
+  }
+
+  private async handleMembers(peer: PeerConnection, members: MemberInfo[]) {
+    this.links.set(peer.id, new Set(members.map((member) => member.id)));
+    this.notifyConnectionChange();
+    if (!this.serverless) return;
+
+    for (const member of members) {
+      if (member.id === this.peerId) continue;
+      this.relayVia.set(member.id, peer.id);
+      if (this.peers.has(member.id)) continue;
+
+      // Exactly one side of each new link makes the offer; the other waits for it
+      if (this.peerId < member.id) {
+        console.log(`Linking to ${member.name} through ${peer.name}`);
+        await this.createPeerConnection(member.id, member.name, true);
+      }
+    }
+  }
+
+  // Routing
+
+  // A neighbor with a working link to the target, other than the one a frame came from
+  private findRelay(targetId: string, excludeId?: string): PeerConnection | undefined {
+    for (const [neighborId, reachable] of this.links) {
+      if (neighborId === excludeId || !reachable.has(targetId)) continue;
+      const neighbor = this.peers.get(neighborId);
+      if (neighbor?.connected && this.isPeerReady(neighbor)) return neighbor;
+    }
+    return undefined;
+  }
+
+  private markRouteSeen(id: string): boolean {
+    if (this.seenRoutes.has(id)) return false;
+    this.seenRoutes.add(id);
+    if (this.seenRoutes.size > MAX_SEEN_ROUTES) {
+      this.seenRoutes.delete(this.seenRoutes.values().next().value!);
+    }
+    return true;
+  }
+
+  // Reach peers whose direct link is down through a neighbor that still has one
+  private relayToUnreachable(payload: RoutablePayload) {
+    this.peers.forEach((peer) => {
+      if (peer.connected || !this.findRelay(peer.id)) return;
+      const id = this.generateId();
+      this.markRouteSeen(id);
+      const frame: SignedFrame = {
+        kind: "routed",
+        id,
+        from: this.peerId,
+        to: peer.id,
+        ttl: MAX_ROUTE_HOPS,
+        payload,
+        publicKey: "",
+        signature: ""
+      };
+      this.sendSigned(frame, () => {
+        const relay = this.findRelay(peer.id);
+        return relay ? [relay] : [];
+      });
+    });
+  }
+
+  // Sign a frame we author, then send it to whichever peers are chosen once it is signed
+  private sendSigned(frame: SignedFrame, targets: () => PeerConnection[]) {
+    const identity = this.identity;
+    this.signingQueue = this.signingQueue
+      .then(async () => {
+        frame.publicKey = identity.publicKey;
+        frame.signature = await identity.sign(relaySigningInput(frame));
+        targets().forEach((peer) => this.sendPayload(peer, frame));
+      })
+      .catch((e) => console.error(`Failed to sign ${frame.kind} frame:`, e));
+  }
+
+  // The author's ID is derived from the key it signed with, so a relay cannot swap either
+  private async verifySigned(relay: PeerConnection, frame: SignedFrame): Promise<boolean> {
+    const valid = await verifySignature(frame.publicKey, frame.from, relaySigningInput(frame), frame.signature);
+    if (!valid) {
+      this.reportSecurityEvent(relay, "spoofed-sender",
+        `${relay.name} relayed a ${frame.payload.kind} frame that ${frame.from} did not sign`);
+    }
+    return valid;
+  }
+
+  private async handleRouted(peer: PeerConnection, routed: Extract<WirePayload, { kind: "routed" }>) {
+    if (this.seenRoutes.has(routed.id) || routed.from === this.peerId) return;
+
+    // Only peers whose link to us is down have their frames routed; anyone else speaks for themselves
+    if (routed.to === this.peerId) {
+      const direct = this.peers.get(routed.from);
+      if (!direct || (direct.connected && this.isPeerReady(direct))) {
+        console.warn(`Dropping routed ${routed.payload.kind} from ${routed.from}, who is not unreachable`);
+        return;
+      }
+    }
+    if (!(await this.verifySigned(peer, routed)) || !this.markRouteSeen(routed.id)) return;
+
+    if (routed.to !== this.peerId) {
+      const target = this.peers.get(routed.to);
+      const next = target?.connected && this.isPeerReady(target) ? target : this.findRelay(routed.to, peer.id);
+      if (routed.ttl <= 1 || !next || next.id === routed.from) {
+        console.warn(`Dropping routed ${routed.payload.kind} for ${routed.to}`);
+        return;
+      }
+      this.sendPayload(next, { ...routed, ttl: routed.ttl - 1 });
+      return;
+    }
+
+    this.deliverRelayed(routed.from, routed.payload);
+  }
+
+  // Callers check the author's signature; the sender must still be a room member
+  private deliverRelayed(from: string, payload: RoutablePayload) {
+    const sender = this.peers.get(from) ?? this.members.get(from);
+    if (!sender) {
+      console.warn(`Dropping relayed ${payload.kind} from unknown peer ${from}`);
+      return;
+    }
+    // Private messages only travel over the direct link between the two peers
+    if (payload.kind === "chat" && payload.message.to !== undefined) {
+      console.warn(`Dropping relayed private message from ${sender.name}`);
+      return;
+    }
+    if (payload.kind === "chat" && payload.message.file) {
+      // File chunks only travel over direct links
+      const { file: _file, ...message } = payload.message;
+      payload = { kind: "chat", message };
+    }
+    this.handleContent(sender, payload);
+  }
+
+  // Gossip overlay
+
+  private addMember(id: string, name: string) {
+    if (id === this.peerId || this.members.has(id)) return;
+    this.members.set(id, { id, name });
+  }
+
+  private removeMember(id: string) {
+    const member = this.members.get(id);
+    if (!member) return;
+    this.setRemoteTyping(member, false);
+    this.members.delete(id);
+  }
+
+  // A room that outgrew the threshold stays on the overlay until we leave it,
+  // so links are not torn down and rebuilt as people come and go around the limit
+  private updateTopology() {
+    if (this.topology === "gossip" || this.members.size + 1 <= GOSSIP_THRESHOLD) return;
+    this.topology = "gossip";
+    console.log(`Room has ${this.members.size + 1} peers, switching to the gossip overlay`);
+    this.onTopologyChangeCallback?.(this.topology);
+    this.notifyConnectionChange();
+  }
+
+  // Top up our own links with random members we are not linked to yet
+  private async ensureNeighbors() {
+    if (this.topology !== "gossip") return;
+    const linked = Array.from(this.peers.values()).filter((p) => p.status !== "disconnected").length;
+    const candidates = Array.from(this.members.values()).filter((m) => !this.peers.has(m.id));
+    for (let i = linked; i < GOSSIP_NEIGHBORS && candidates.length > 0; i++) {
+      const [member] = candidates.splice(Math.floor(Math.random() * candidates.length), 1);
+      console.log(`Adding ${member.name} as a gossip neighbor`);
+      await this.createPeerConnection(member.id, member.name, true);
+    }
+  }
+
+  private gossip(payload: RoutablePayload) {
+    const id = this.generateId();
+    this.markRouteSeen(id);
+    const frame: SignedFrame = {
+      kind: "gossip",
+      id,
+      from: this.peerId,
+      ttl: MAX_GOSSIP_HOPS,
+      payload,
+      publicKey: "",
+      signature: ""
+    };
+    this.sendSigned(frame, () =>
+      Array.from(this.peers.values()).filter((peer) => peer.connected && this.isPeerReady(peer))
+    );
+  }
+
+  // Pass a gossip frame on to every other neighbor, then deliver it; duplicates die here
+  private async handleGossip(peer: PeerConnection, frame: Extract<WirePayload, { kind: "gossip" }>) {
+    if (this.seenRoutes.has(frame.id) || frame.from === this.peerId) return;
+
+    // A neighbor's own frames come straight from it; left unseen so that copy is still delivered
+    const direct = this.peers.get(frame.from);
+    if (direct && direct !== peer && direct.connected && this.isPeerReady(direct)) {
+      console.warn(`Dropping gossip from ${frame.from} relayed by ${peer.name}; we have a direct link`);
+      return;
+    }
+    if (!(await this.verifySigned(peer, frame)) || !this.markRouteSeen(frame.id)) return;
+
+    if (frame.ttl > 1) {
+      this.peers.forEach((neighbor) => {
+        if (neighbor === peer || neighbor.id === frame.from) return;
+        if (neighbor.connected && this.isPeerReady(neighbor)) {
+          this.sendPayload(neighbor, { ...frame, ttl: frame.ttl - 1 });
+        }
+      });
+    }
+    this.deliverRelayed(frame.from, frame.payload);
+  }
+
+  // Calls
+
+  private handleRemoteTrack(peer: PeerConnection, event: RTCTrackEvent) {
+    const stream = event.streams[0] ?? new MediaStream([event.track]);
+    if (!peer.remoteStreams.has(stream.id)) {
+      peer.remoteStreams.set(stream.id, stream);
+      // Fires when the remote side removes a track and renegotiates
+      stream.onremovetrack = () => {
+        if (stream.getTracks().length === 0) {
+          peer.remoteStreams.delete(stream.id);
+        }
+        this.notifyRemoteMedia(peer);
+      };
+    }
+    this.notifyRemoteMedia(peer);
+  }
+
+  // The screen share is the stream the peer named in its "screen-share" notice; anything else is its call
+  private notifyRemoteMedia(peer: PeerConnection) {
+    let call: MediaStream | null = null;
+    let screen: MediaStream | null = null;
+    for (const [id, stream] of peer.remoteStreams) {
+      if (id === peer.screenStreamId) {
+        screen = stream;
+      } else {
+        call = stream;
+      }
+    }
+    this.onRemoteStreamCallback?.(peer.id, call);
+    this.onScreenShareCallback?.(peer.id, screen);
+  }
+
+  private callStream(peer: PeerConnection): MediaStream | undefined {
+    return Array.from(peer.remoteStreams.values()).find((stream) => stream.id !== peer.screenStreamId);
+  }
+
+  // Adding or removing a track fires negotiationneeded on every link
+  private addLocalTrack(track: MediaStreamTrack) {
+    const stream = this.localStream!;
+    stream.addTrack(track);
+    this.peers.forEach((peer) => peer.pc.addTrack(track, stream));
+  }
+
+  private removeLocalTrack(track: MediaStreamTrack) {
+    this.localStream?.removeTrack(track);
+    this.stopSending(track);
+  }
+
+  private addScreenTracks(peer: PeerConnection) {
+    const stream = this.screenStream!;
+    const senders = peer.pc.getSenders();
+    stream.getTracks().forEach((track) => {
+      if (!senders.some((s) => s.track === track)) {
+        peer.pc.addTrack(track, stream);
+      }
+    });
+  }
+
+  // Stop a track and take it off every link
+  private stopSending(track: MediaStreamTrack) {
+    track.stop();
+    this.peers.forEach((peer) => {
+      const sender = peer.pc.getSenders().find((s) => s.track === track);
+      if (sender && peer.pc.signalingState !== "closed") {
+        peer.pc.removeTrack(sender);
+      }
+    });
+  }
+
+  // File transfer
+
+  private async pumpFile(peer: PeerConnection, transfer: OutgoingTransfer) {
+    const { info, data } = transfer;
+    const channel = peer.channel;
+    const total = chunkCount(info.size);
+    let state: FileTransferState = "completed";
+    let sentBytes = 0;
+
+    for (let index = 0; index < total; index++) {
+      if (channel) {
+        await waitForBufferedAmountLow(channel);
+      }
+      if (transfer.cancelled || transfer.cancelledPeers.has(peer.id)) {
+        state = "cancelled";
+        break;
+      }
+      if (!channel || channel.readyState !== "open") {
+        state = "failed";
+        break;
+      }
+
+      const chunk = data.slice(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE);
+      await this.sendToPeer(peer, encodeChunk(info.transferId, index, chunk));
+      sentBytes += chunk.byteLength;
+
+      if (index < total - 1) {
+        this.reportFileProgress(info, peer, "send", sentBytes, "transferring");
+      }
+    }
+
+    this.reportFileProgress(info, peer, "send", sentBytes, state);
+  }
+
+  private startIncomingTransfer(peer: RemotePeer, message: Message) {
+    const info = message.file!;
+    this.incomingTransfers.set(info.transferId, {
+      info,
+      peerId: peer.id,
+      senderName: message.senderName,
+      chunks: new Array(chunkCount(info.size)),
+      receivedChunks: 0,
+      receivedBytes: 0
+    });
+    this.reportFileProgress(info, peer, "receive", 0, "transferring");
+  }
+
+  private async handleFileChunk(peer: PeerConnection, frame: ArrayBuffer) {
+    const chunk = decodeChunk(frame);
+    if (!chunk) return;
+
+    const transfer = this.incomingTransfers.get(chunk.transferId);
+    if (!transfer || transfer.peerId !== peer.id) return;
+    if (chunk.index >= transfer.chunks.length || transfer.chunks[chunk.index]) return;
+
+    transfer.chunks[chunk.index] = chunk.data;
+    transfer.receivedChunks++;
+    transfer.receivedBytes += chunk.data.byteLength;
+
+    if (transfer.receivedChunks < transfer.chunks.length) {
+      this.reportFileProgress(transfer.info, peer, "receive", transfer.receivedBytes, "transferring");
+      return;
+    }
+
+    this.incomingTransfers.delete(chunk.transferId);
+
+    const blob = new Blob(transfer.chunks, { type: transfer.info.mimeType });
+    const checksum = await sha256Hex(await blob.arrayBuffer());
+    if (checksum !== transfer.info.sha256 || blob.size !== transfer.info.size) {
+      this.reportFileProgress(transfer.info, peer, "receive", transfer.receivedBytes, "failed", "Checksum mismatch");
+      return;
+    }
+
+    this.reportFileProgress(transfer.info, peer, "receive", transfer.receivedBytes, "completed");
+    this.onFileReceivedCallback?.({
+      transferId: transfer.info.transferId,
+      sender: peer.id,
+      senderName: transfer.senderName,
+      name: transfer.info.name,
+      mimeType: transfer.info.mimeType,
+      blob
+    });
+  }
+
+  private handleFileCancel(peer: RemotePeer, transferId: string) {
+    // The remote side stopped receiving our file
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (outgoing) {
+      outgoing.cancelledPeers.add(peer.id);
+      return;
+    }
+
+    // The sender aborted a file we were receiving
+    const incoming = this.incomingTransfers.get(transferId);
+    if (incoming && incoming.peerId === peer.id) {
+      this.incomingTransfers.delete(transferId);
+      this.reportFileProgress(incoming.info, peer, "receive", incoming.receivedBytes, "cancelled");
+    }
+  }
+
+  private failIncomingTransfers(peerId: string) {
+    const peer = this.peers.get(peerId);
+    this.incomingTransfers.forEach((transfer, transferId) => {
+      if (transfer.peerId !== peerId) return;
+      this.incomingTransfers.delete(transferId);
+      if (peer) {
+        this.reportFileProgress(transfer.info, peer, "receive", transfer.receivedBytes, "failed", "Peer disconnected");
+      }
+    });
+  }
+
+  private reportFileProgress(
+    info: FileInfo,
+    peer: RemotePeer,
+    direction: FileTransferDirection,
+    bytesTransferred: number,
+    state: FileTransferState,
+    error?: string
+  ) {
+    this.onFileProgressCallback?.({
+      transferId: info.transferId,
+      peerId: peer.id,
+      peerName: peer.name,
+      direction,
+      bytesTransferred,
+      totalBytes: info.size,
+      state,
+      error
+    });
+  }
+
+  private async handleDescription(fromId: string, fromName: string, description: RTCSessionDescriptionInit) {
+    let peer = this.peers.get(fromId);
+
+    if (!peer) {
+      if (description.type !== "offer") return;
+      peer = await this.createPeerConnection(fromId, fromName, false);
+    }
+
+    const { pc } = peer;
+
+    // Glare: both sides offered at once. The impolite peer ignores the remote
+    // offer; the polite peer rolls back its own offer and accepts theirs.
+    const offerCollision = description.type === "offer" &&
+      (peer.makingOffer || pc.signalingState !== "stable");
+    peer.ignoreOffer = !peer.polite && offerCollision;
+    if (peer.ignoreOffer) {
+      console.log(`Ignoring colliding offer from ${peer.name}`);
+      return;
+    }
+
+    try {
+      await pc.setRemoteDescription(description);
+    } catch (e) {
+      // A late answer to an offer we already rolled back
+      console.warn(`Could not apply ${description.type} from ${peer.name}:`, e);
+      return;
+    }
+
+    // Apply any pending ICE candidates
+    const pending = this.pendingCandidates.get(fromId) || [];
+    for (const candidate of pending) {
+      await this.addIceCandidate(peer, candidate);
+    }
+    this.pendingCandidates.delete(fromId);
+
+    if (description.type === "offer") {
+      await pc.setLocalDescription();
+      this.sendSignal(fromId, { type: "answer", description: pc.localDescription!.toJSON() });
+    }
+  }
+
+  private async addIceCandidate(peer: PeerConnection, candidate: RTCIceCandidateInit) {
+    try {
+      await peer.pc.addIceCandidate(new RTCIceCandidate(candidate));
+    } catch (e) {
+      // Candidates belonging to an offer we ignored are expected to fail
+      if (!peer.ignoreOffer) {
+        console.error(`Failed to add ICE candidate from ${peer.name}:`, e);
+      }
+    }
+  }
+
+  private async handleIceCandidate(fromId: string, candidate: RTCIceCandidateInit) {
+    const peer = this.peers.get(fromId);
+    if (peer && peer.pc.remoteDescription) {
+      await this.addIceCandidate(peer, candidate);
+    } else {
+      // Queue candidate if remote description not set yet
+      if (!this.pendingCandidates.has(fromId)) {
+        this.pendingCandidates.set(fromId, []);
+      }
+      this.pendingCandidates.get(fromId)!.push(candidate);
+    }
+  }
+
+  // ICE restart
+
+  private restartIce(peer: PeerConnection) {
+    if (peer.pc.connectionState === "connected" || peer.pc.connectionState === "closed") return;
+
+    if (peer.iceRestarts >= MAX_ICE_RESTARTS) {
+      console.log(`Giving up on ${peer.name} after ${peer.iceRestarts} ICE restarts`);
+      if (this.topology === "gossip") {
+        // Any other member will do as a neighbor
+        this.removePeer(peer.id);
+        return;
+      }
+      this.setPeerStatus(peer, "disconnected");
+      return;
+    }
+
+    peer.iceRestarts++;
+    this.setPeerStatus(peer, "reconnecting");
+
+    // Triggers negotiationneeded; colliding restarts from both sides are resolved by perfect negotiation
+    console.log(`Restarting ICE with ${peer.name} (attempt ${peer.iceRestarts})`);
+    peer.pc.restartIce();
+
+    // Try again if this attempt does not bring the link back
+    clearTimeout(peer.iceRestartTimer);
+    peer.iceRestartTimer = setTimeout(() => this.restartIce(peer), ICE_DISCONNECT_GRACE * 2);
+  }
+
+  private setPeerStatus(peer: PeerConnection, status: PeerStatus) {
+    const wasConnected = peer.connected;
+    if (peer.status !== status) {
+      addTransition(peer.timeline, "status", status);
+    }
+    peer.status = status;
+    peer.connected = status === "connected";
+    this.notifyConnectionChange();
+    if (peer.connected !== wasConnected) {
+      this.announceMembers();
+    }
+  }
+
+  private removePeer(peerId: string) {
+    const peer = this.peers.get(peerId);
+    if (peer) {
+      this.failIncomingTransfers(peerId);
+      clearTimeout(peer.handshakeTimer);
+      clearTimeout(peer.authTimer);
+      clearTimeout(peer.iceRestartTimer);
+      clearTimeout(peer.typingTimer);
+      peer.channel?.close();
+      peer.pc.close();
+      this.peers.delete(peerId);
+      if (peer.remoteStreams.size > 0) {
+        peer.remoteStreams.clear();
+        this.notifyRemoteMedia(peer);
+      }
+      this.relayVia.forEach((via, id) => {
+        if (id === peerId || via === peerId) this.relayVia.delete(id);
+      });
+      this.links.delete(peerId);
+      this.notifyConnectionChange();
+      this.announceMembers();
+      this.ensureNeighbors().catch((e) => console.error("Failed to add gossip neighbor:", e));
+    }
+  }
+
+  private notifyConnectionChange() {
+    const peerList: PeerInfo[] = Array.from(this.peers.values()).map(p => {
+      const info: PeerInfo = { id: p.id, name: p.name, connected: p.connected, status: p.status };
+      if (p.publicKey) {
+        info.publicKey = p.publicKey;
+      }
+      const relay = p.connected ? undefined : this.findRelay(p.id);
+      if (relay) {
+        info.via = relay.name;
+      }
+      return info;
+    });
+    if (this.topology === "gossip") {
+      this.members.forEach((member) => {
+        if (this.peers.has(member.id)) return;
+        peerList.push({ id: member.id, name: member.name, connected: false, status: "connected", overlay: true });
+      });
+    }
+    this.onConnectionChangeCallback?.(peerList);
+  }
+
+  // Public API
+
+  // An optional passphrase enables end-to-end encryption for the room
+  // Saved messages passed in are offered to peers along with anything said this session
+  async joinRoom(roomId: string, passphrase: string = "", savedHistory: Message[] = []) {
+    this.roomId = roomId;
+    this.members.clear();
+    this.topology = "mesh";
+    this.roomCrypto = passphrase ? await RoomCrypto.fromPassphrase(roomId, passphrase) : null;
+    this.history.clear();
+    // Saved private messages we were not part of, e.g. from another identity, are never served again
+    this.history.merge(savedHistory.filter((m) =>
+      m.to === undefined || m.to === this.peerId || m.sender === this.peerId
+    ));
+    this.sendJoin();
+  }
+
+  getRooms() {
+    this.send({ type: "get-rooms" });
+  }
+
+  // Forget this session's messages, so peers who connect later are not sent them
+  clearHistory() {
+    this.history.clear();
+  }
+
+  // Serverless pairing: share an invite code, then apply the answer code that comes back.
+  // Resolves to null if the invite was cancelled or replaced while candidates were gathered.
+  async createInvite(): Promise<string | null> {
+    this.cancelInvite();
+    const invite = this.newPeerConnection("", "", true);
+    invite.paired = true;
+    invite.awaitingCode = true;
+    this.invite = invite;
+
+    await invite.pc.setLocalDescription();
+    await waitForIceGathering(invite.pc);
+    if (this.invite !== invite) return null;
+    return encodePairingCode(invite.pc.localDescription!, this.peerName, this.peerId);
+  }
+
+  // Joiner side: apply someone's invite and return the answer code to send back
+  async acceptInvite(code: string): Promise<string> {
+    const { desc, name, id } = await decodePairingCode(code, "offer");
+    if (id === this.peerId || this.peers.has(id)) {
+      throw new Error(`You are already connected to ${name}`);
+    }
+
+    const peer = await this.createPeerConnection(id, name, false);
+    peer.paired = true;
+    peer.awaitingCode = true;
+    try {
+      await applyPairingDescription(peer.pc, desc);
+    } catch (e) {
+      this.removePeer(id);
+      throw e;
+    }
+    await peer.pc.setLocalDescription();
+    await waitForIceGathering(peer.pc);
+    peer.awaitingCode = false;
+    return encodePairingCode(peer.pc.localDescription!, this.peerName, this.peerId);
+  }
+
+  async acceptAnswer(code: string): Promise<void> {
+    const invite = this.invite;
+    if (!invite) {
+      throw new Error("There is no open invite for this answer");
+    }
+    const { desc, name, id } = await decodePairingCode(code, "answer");
+    if (id === this.peerId || this.peers.has(id)) {
+      throw new Error(`You are already connected to ${name}`);
+    }
+
+    await applyPairingDescription(invite.pc, desc);
+    invite.id = id;
+    invite.name = name;
+    invite.polite = this.peerId > id;
+    invite.awaitingCode = false;
+    this.invite = null;
+    this.peers.set(id, invite);
+    this.notifyConnectionChange();
+  }
+
+  cancelInvite() {
+    if (!this.invite) return;
+    this.invite.channel?.close();
+    this.invite.pc.close();
+    this.invite = null;
+  }
+
+  sendMessage(text: string, options: SendOptions = {}): Message {
+    const message: Message = {
+      id: this.generateId(),
+      sender: this.peerId,
+      senderName: this.peerName,
+      text,
+      timestamp: Date.now()
+    };
+    if (options.replyTo) {
+      message.replyTo = options.replyTo;
+    }
+    this.history.add(message);
+
+    this.broadcast({ kind: "chat", message });
+    // Receiving the message clears our typing indicator on the other side
+    this.lastTypingSent = 0;
+
+    return message;
+  }
+
+  // Deliver a message to one peer only, over our direct link to it; never relayed.
+  // Throws if we have no ready link to the peer.
+  sendPrivateMessage(peerId: string, text: string, options: SendOptions = {}): Message {
+    const peer = this.peers.get(peerId);
+    if (!peer || !this.isPeerReady(peer)) {
+      const name = peer?.name ?? this.members.get(peerId)?.name ?? "This peer";
+      throw new Error(`${name} is not directly connected; private messages are only sent over a direct link`);
+    }
+
+    const message: Message = {
+      id: this.generateId(),
+      sender: this.peerId,
+      senderName: this.peerName,
+      text,
+      timestamp: Date.now(),
+      to: peerId
+    };
+    if (options.replyTo) {
+      message.replyTo = options.replyTo;
+    }
+    this.history.add(message);
+
+    this.sendPayload(peer, { kind: "chat", message });
+    this.lastTypingSent = 0;
+
+    return message;
+  }
+
+  // Call on every keystroke; notices are throttled so the mesh is not flooded
+  sendTyping(active: boolean) {
+    const now = Date.now();
+    if (active) {
+      if (now - this.lastTypingSent < TYPING_THROTTLE) return;
+      this.lastTypingSent = now;
+    } else {
+      if (!this.lastTypingSent) return;
+      this.lastTypingSent = 0;
+    }
+    this.broadcastControl({ type: "typing", active });
+  }
+
+  editMessage(messageId: string, text: string): MessageUpdate {
+    const editedAt = Date.now();
+    this.history.edit(messageId, this.peerId, text);
+    this.sendMessageControl(messageId, { type: "edit", messageId, text, editedAt });
+    return { type: "edit", messageId, text, editedAt, peerId: this.peerId };
+  }
+
+  deleteMessage(messageId: string): MessageUpdate {
+    this.sendMessageControl(messageId, { type: "delete", messageId });
+    this.history.remove(messageId, this.peerId);
+    return { type: "delete", messageId, peerId: this.peerId };
+  }
+
+  react(messageId: string, emoji: string, add: boolean): MessageUpdate {
+    this.sendMessageControl(messageId, { type: "reaction", messageId, emoji, add });
+    return { type: "reaction", messageId, emoji, add, peerId: this.peerId };
+  }
+
+  // Tell the room we have read everything up to and including this message
+  sendReadReceipt(messageId: string) {
+    if (messageId === this.lastReadSent) return;
+    this.lastReadSent = messageId;
+    this.sendMessageControl(messageId, { type: "read", messageId });
+  }
+
+  // Share a file with every connected peer; chunks are streamed in the background
+  // Throws if the file is larger than MAX_FILE_SIZE
+  async sendFile(file: File): Promise<Message> {
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`${file.name} is larger than the ${formatFileSize(MAX_FILE_SIZE)} limit`);
+    }
+    const data = await file.arrayBuffer();
+    const id = this.generateId();
+    const info: FileInfo = {
+      transferId: id,
+      name: file.name,
+      size: file.size,
+      mimeType: file.type || "application/octet-stream",
+      sha256: await sha256Hex(data)
+    };
+
+    const message: Message = {
+      id,
+      sender: this.peerId,
+      senderName: this.peerName,
+      // Shown by builds that predate file sharing
+      text: `[File] ${file.name}`,
+      timestamp: Date.now(),
+      file: info
+    };
+    this.history.add(message);
+
+    const transfer: OutgoingTransfer = {
+      info,
+      data,
+      cancelled: false,
+      cancelledPeers: new Set()
+    };
+    this.outgoingTransfers.set(id, transfer);
+
+    const pumps: Promise<void>[] = [];
+    this.peers.forEach((peer) => {
+      if (!this.isPeerReady(peer)) return;
+      this.sendPayload(peer, { kind: "chat", message });
+      if (peer.version! >= 2) {
+        pumps.push(this.pumpFile(peer, transfer));
+      }
+    });
+
+    Promise.all(pumps).finally(() => this.outgoingTransfers.delete(id));
+    // Neighbors already have it with the file; the rest see the name only
+    if (this.topology === "gossip") {
+      this.gossip({ kind: "chat", message });
+    } else {
+      this.relayToUnreachable({ kind: "chat", message });
+    }
+
+    return message;
+  }
+
+  cancelFile(transferId: string) {
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (outgoing) {
+      outgoing.cancelled = true;
+      this.broadcastControl({ type: "file-cancel", transferId });
+      return;
+    }
+
+    const incoming = this.incomingTransfers.get(transferId);
+    const peer = incoming && this.peers.get(incoming.peerId);
+    if (incoming && peer) {
+      this.incomingTransfers.delete(transferId);
+      if (this.isPeerReady(peer)) {
+        this.sendPayload(peer, { kind: "control", control: { type: "file-cancel", transferId } });
+      }
+      this.reportFileProgress(incoming.info, peer, "receive", incoming.receivedBytes, "cancelled");
+    }
+  }
+
+  // Join the call with the microphone, and the camera if asked; returns our own stream
+  async startCall(video: boolean): Promise<MediaStream> {
+    if (this.localStream) return this.localStream;
+    const captured = await navigator.mediaDevices.getUserMedia({ audio: true, video });
+    this.localStream = new MediaStream();
+    captured.getTracks().forEach((track) => this.addLocalTrack(track));
+    return this.localStream;
+  }
+
+  endCall() {
+    this.localStream?.getTracks().forEach((track) => this.removeLocalTrack(track));
+    this.localStream = null;
+  }
+
+  // Muting keeps the track, so it needs no renegotiation and unmuting is instant
+  setMicrophoneEnabled(enabled: boolean) {
+    this.localStream?.getAudioTracks().forEach((track) => {
+      track.enabled = enabled;
+    });
+  }
+
+  // Turning the camera off removes its track, which also turns off the camera light
+  async setCameraEnabled(enabled: boolean) {
+    if (!this.localStream) return;
+    const current = this.localStream.getVideoTracks();
+    if (!enabled) {
+      current.forEach((track) => this.removeLocalTrack(track));
+      return;
+    }
+    if (current.length > 0) return;
+    const captured = await navigator.mediaDevices.getUserMedia({ video: true });
+    const [track] = captured.getVideoTracks();
+    // The call may have ended while the camera was starting
+    if (!this.localStream) {
+      track.stop();
+      return;
+    }
+    this.addLocalTrack(track);
+  }
+
+  // Present a tab, window or screen to the room as a view-only video stream.
+  // Sharing ends when stopScreenShare is called or the capture ends, e.g. from Chrome's own "Stop sharing".
+  startScreenShare(stream: MediaStream) {
+    this.stopScreenShare();
+    this.screenStream = stream;
+    stream.getTracks().forEach((track) => {
+      track.addEventListener("ended", () => {
+        if (this.screenStream === stream) this.stopScreenShare();
+      });
+    });
+
+    this.broadcastControl({ type: "screen-share", streamId: stream.id });
+    this.peers.forEach((peer) => {
+      if (this.isPeerReady(peer)) this.addScreenTracks(peer);
+    });
+    this.onScreenShareCallback?.(this.peerId, stream);
+  }
+
+  stopScreenShare() {
+    const stream = this.screenStream;
+    if (!stream) return;
+    this.screenStream = null;
+    stream.getTracks().forEach((track) => this.stopSending(track));
+    this.broadcastControl({ type: "screen-share", streamId: null });
+    this.onScreenShareCallback?.(this.peerId, null);
+  }
+
+  // Levels from 0 to 1 by peer ID, for everyone sending audio, us included.
+  // Remote levels come from the RTP packets; ours from the microphone's stats.
+  async getAudioLevels(): Promise<Record<string, number>> {
+    const levels: Record<string, number> = {};
+    this.peers.forEach((peer) => {
+      if (!this.callStream(peer)) return;
+      const receiver = peer.pc.getReceivers().find((r) => r.track.kind === "audio");
+      const source = receiver?.getSynchronizationSources()[0];
+      levels[peer.id] = source?.audioLevel ?? 0;
+    });
+
+    const microphone = this.localStream?.getAudioTracks()[0];
+    if (microphone) {
+      levels[this.peerId] = 0;
+      const sender = Array.from(this.peers.values())
+        .flatMap((peer) => peer.pc.getSenders())
+        .find((s) => s.track === microphone);
+      const stats = sender ? await sender.getStats() : null;
+      stats?.forEach((report) => {
+        if (report.type === "media-source" && report.kind === "audio") {
+          levels[this.peerId] = microphone.enabled ? report.audioLevel ?? 0 : 0;
+        }
+      });
+    }
+    return levels;
+  }
+
+  // Snapshot of one direct link, or null if we have none to that peer
+  async getPeerStats(peerId: string): Promise<PeerStats | null> {
+    const peer = this.peers.get(peerId);
+    if (!peer) return null;
+
+    const report = await peer.pc.getStats();
+    return {
+      peerId: peer.id,
+      peerName: peer.name,
+      timestamp: Date.now(),
+      status: peer.status,
+      connectionState: peer.pc.connectionState,
+      iceConnectionState: peer.pc.iceConnectionState,
+      iceGatheringState: peer.pc.iceGatheringState,
+      signalingState: peer.pc.signalingState,
+      channelState: peer.channel?.readyState ?? null,
+      bufferedAmount: peer.channel?.bufferedAmount ?? 0,
+      protocolVersion: peer.version,
+      authenticated: peer.authenticated,
+      iceRestarts: peer.iceRestarts,
+      timeline: peer.timeline.slice(),
+      ...readTransportStats(report)
+    };
+  }
+
+  async getAllPeerStats(): Promise<PeerStats[]> {
+    const stats = await Promise.all(Array.from(this.peers.keys()).map((id) => this.getPeerStats(id)));
+    return stats.filter((s): s is PeerStats => s !== null);
+  }
+
+  disconnect() {
+    this.closedByUser = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.cancelInvite();
+    this.localStream?.getTracks().forEach((track) => track.stop());
+    this.localStream = null;
+    this.screenStream?.getTracks().forEach((track) => track.stop());
+    this.screenStream = null;
+    this.peers.forEach((peer) => {
+      clearTimeout(peer.handshakeTimer);
+      clearTimeout(peer.authTimer);
+      clearTimeout(peer.iceRestartTimer);
+      clearTimeout(peer.typingTimer);
+      peer.channel?.close();
+      peer.pc.close();
+    });
+    this.peers.clear();
+    this.relayVia.clear();
+    this.links.clear();
+    this.seenRoutes.clear();
+    this.members.forEach((member) => clearTimeout(member.typingTimer));
+    this.members.clear();
+    this.outgoingTransfers.forEach((transfer) => {
+      transfer.cancelled = true;
+    });
+    this.incomingTransfers.clear();
+    this.ws?.close();
+    this.ws = null;
+  }
+
+  // Callbacks
+  onMessage(callback: (message: Message) => void) {
+    this.onMessageCallback = callback;
+  }
+
+  onPeerJoin(callback: (peerId: string, peerName: string) => void) {
+    this.onPeerJoinCallback = callback;
+  }
+
+  onPeerLeave(callback: (peerId: string, peerName: string) => void) {
+    this.onPeerLeaveCallback = callback;
+  }
+
+  onConnectionChange(callback: (peers: PeerInfo[]) => void) {
+    this.onConnectionChangeCallback = callback;
+  }
+
+  onRoomJoined(callback: (roomId: string, peers: Array<{ peerId: string; peerName: string }>) => void) {
+    this.onRoomJoinedCallback = callback;
+  }
+
+  onServerConnected(callback: (connected: boolean) => void) {
+    this.onServerConnectedCallback = callback;
+  }
+
+  onReconnecting(callback: (attempt: number, delay: number) => void) {
+    this.onReconnectingCallback = callback;
+  }
+
+  // Someone else holds our peer ID in the room and we could not prove it is ours
+  onJoinRejected(callback: (roomId: string, reason: string) => void) {
+    this.onJoinRejectedCallback = callback;
+  }
+
+  onRoomsList(callback: (rooms: RoomInfo[]) => void) {
+    this.onRoomsListCallback = callback;
+  }
+
+  onFileProgress(callback: (progress: FileTransferProgress) => void) {
+    this.onFileProgressCallback = callback;
+  }
+
+  onFileReceived(callback: (file: ReceivedFile) => void) {
+    this.onFileReceivedCallback = callback;
+  }
+
+  onPeerRejected(callback: (peerId: string, peerName: string, reason: string) => void) {
+    this.onPeerRejectedCallback = callback;
+  }
+
+  onSecurityEvent(callback: (event: SecurityEvent) => void) {
+    this.onSecurityEventCallback = callback;
+  }
+
+  onTyping(callback: (peerId: string, peerName: string, active: boolean) => void) {
+    this.onTypingCallback = callback;
+  }
+
+  onReadReceipt(callback: (peerId: string, peerName: string, messageId: string) => void) {
+    this.onReadReceiptCallback = callback;
+  }
+
+  onMessageUpdate(callback: (update: MessageUpdate) => void) {
+    this.onMessageUpdateCallback = callback;
+  }
+
+  // Earlier messages synced from peers; only ones we had not seen, oldest first
+  onHistory(callback: (messages: Message[]) => void) {
+    this.onHistoryCallback = callback;
+  }
+
+  // Serverless rooms: a link set up with pairing codes is ready
+  onPaired(callback: (peerId: string, peerName: string) => void) {
+    this.onPairedCallback = callback;
+  }
+
+  // The room grew past the gossip threshold
+  onTopologyChange(callback: (topology: Topology) => void) {
+    this.onTopologyChangeCallback = callback;
+  }
+
+  // A peer started or stopped sending media, or changed tracks; null once it sends none
+  onRemoteStream(callback: (peerId: string, stream: MediaStream | null) => void) {
+    this.onRemoteStreamCallback = callback;
+  }
+
+  // A peer, or we, started or stopped presenting; null once the share ends
+  onScreenShare(callback: (peerId: string, stream: MediaStream | null) => void) {
+    this.onScreenShareCallback = callback;
+  }
+
+  // A peer passed any room passphrase check; publicKey is null if it proved no signing key
+  onPeerIdentity(callback: (peerId: string, peerName: string, publicKey: string | null) => void) {
+    this.onPeerIdentityCallback = callback;
+  }
+
+  // Getters
+  getPeerId(): string {
+    return this.peerId;
+  }
+
+  getTopology(): Topology {
+    return this.topology;
+  }
+
+  getLocalStream(): MediaStream | null {
+    return this.localStream;
   }
 
   getPeerName(): string {
@@ -402,10 +2217,15 @@ export class MeshPeerManager {
     return this.roomId;
   }
 
+  isEncrypted(): boolean {
+    return this.roomCrypto !== null;
+  }
+
+  // Peers with a working direct link; relayed peers are left out
   getConnectedPeers(): PeerInfo[] {
     return Array.from(this.peers.values())
       .filter(p => p.connected)
-      .map(p => ({ id: p.id, name: p.name, connected: true }));
+      .map(p => ({ id: p.id, name: p.name, connected: true, status: p.status }));
   }
 
   isServerConnected(): boolean {
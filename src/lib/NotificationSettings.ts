@@ -0,0 +1,39 @@
+// NotificationSettings.ts - Per-room notification preferences stored in chrome.storage
+//
+// background.js reads the same storage key when deciding whether to notify.
+
+export interface RoomNotificationSettings {
+  muted: boolean;
+  // Only notify for messages that mention us by @name
+  mentionsOnly: boolean;
+}
+
+const STORAGE_KEY = "roomNotifications";
+
+export const DEFAULT_ROOM_NOTIFICATIONS: RoomNotificationSettings = {
+  muted: false,
+  mentionsOnly: false
+};
+
+type StoredSettings = Record<string, RoomNotificationSettings>;
+
+function loadAll(): Promise<StoredSettings> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([STORAGE_KEY], (result) => {
+      resolve((result[STORAGE_KEY] as StoredSettings | undefined) || {});
+    });
+  });
+}
+
+export async function loadRoomNotifications(roomId: string): Promise<RoomNotificationSettings> {
+  const all = await loadAll();
+  return { ...DEFAULT_ROOM_NOTIFICATIONS, ...all[roomId] };
+}
+
+export async function saveRoomNotifications(roomId: string, settings: RoomNotificationSettings): Promise<void> {
+  const all = await loadAll();
+  all[roomId] = settings;
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEY]: all }, () => resolve());
+  });
+}
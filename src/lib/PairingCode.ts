@@ -0,0 +1,280 @@
+// PairingCode.ts - Offer/answer codes for serverless pairing
+//
+// A full SDP is several kilobytes, most of it boilerplate the other side can regenerate.
+// Compact codes keep only what the connection depends on (ICE credentials, DTLS
+// fingerprint and setup role, candidates), deflate it and use the base64url alphabet.
+// Codes from older versions, base64 JSON around the full SDP, are still accepted.
+
+import { fromBase64, toBase64 } from "./RoomCrypto";
+
+export interface PairingDescription {
+  desc: RTCSessionDescriptionInit;
+  name: string;
+  id: string;
+}
+
+// Compact codes start with this; "." never appears in base64, so old codes cannot collide
+const COMPACT_PREFIX = "pb1.";
+const COMPACT_PATTERN = /^pb(\d+)\./;
+
+const CORRUPTED_CODE = "This code is damaged or incomplete. Copy the whole code and try again.";
+
+const DEFAULT_SCTP_PORT = 5000;
+
+// Codes carry every candidate, so wait for gathering; a slow STUN server should not block pairing
+const ICE_GATHERING_TIMEOUT = 10000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Short keys keep the JSON small before compression
+interface CompactDescription {
+  t: "o" | "a";
+  n: string;
+  i: string;
+  u: string;
+  p: string;
+  // Fingerprint hash function and base64url digest
+  h: string;
+  f: string;
+  s: string;
+  m: string;
+  c: string[];
+  sp: number;
+  mm?: number;
+}
+
+export async function encodePairingCode(
+  desc: RTCSessionDescriptionInit,
+  name: string,
+  id: string
+): Promise<string> {
+  const compact = compactDescription(desc, name, id);
+  if (!compact) {
+    // Anything but a single data channel section is sent whole, in the old format
+    return btoa(JSON.stringify({ type: desc.type, sdp: desc.sdp, name, id }));
+  }
+  const compressed = await deflate(encoder.encode(JSON.stringify(compact)));
+  return COMPACT_PREFIX + toBase64Url(compressed);
+}
+
+// Throws a readable error for codes that are damaged or of the wrong kind
+export async function decodePairingCode(code: string, type: RTCSdpType): Promise<PairingDescription> {
+  // Chat apps like to wrap long codes
+  const trimmed = code.replace(/\s+/g, "");
+  if (!trimmed) {
+    throw new Error("The code is empty");
+  }
+
+  const version = trimmed.match(COMPACT_PATTERN);
+  if (version && !trimmed.startsWith(COMPACT_PREFIX)) {
+    throw new Error("This code was made by a newer version of PeerBeam");
+  }
+  const decoded = version
+    ? await decodeCompact(trimmed.slice(COMPACT_PREFIX.length))
+    : decodeLegacy(trimmed);
+
+  if (decoded.desc.type !== type) {
+    throw new Error(type === "offer"
+      ? "This is an answer code. Paste the invite you received instead."
+      : "This is an invite code. Paste the answer you got back instead.");
+  }
+  return decoded;
+}
+
+export async function applyPairingDescription(pc: RTCPeerConnection, desc: RTCSessionDescriptionInit) {
+  try {
+    await pc.setRemoteDescription(desc);
+  } catch (e) {
+    console.error("Failed to apply remote description:", e);
+    throw new Error("This code could not be used to connect. Ask for a fresh one.");
+  }
+}
+
+export function waitForIceGathering(pc: RTCPeerConnection): Promise<void> {
+  return new Promise((resolve) => {
+    if (pc.iceGatheringState === "complete") {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      pc.removeEventListener("icegatheringstatechange", check);
+      resolve();
+    };
+    const check = () => {
+      if (pc.iceGatheringState === "complete") done();
+    };
+    const timer = setTimeout(done, ICE_GATHERING_TIMEOUT);
+    pc.addEventListener("icegatheringstatechange", check);
+  });
+}
+
+async function decodeCompact(encoded: string): Promise<PairingDescription> {
+  let compact: CompactDescription;
+  let sdp: string;
+  try {
+    const value = JSON.parse(decoder.decode(await inflate(fromBase64Url(encoded))));
+    if (!isCompactDescription(value)) throw new Error("Invalid fields");
+    compact = value;
+    sdp = buildSdp(compact);
+  } catch {
+    throw new Error(CORRUPTED_CODE);
+  }
+  return {
+    desc: { type: compact.t === "o" ? "offer" : "answer", sdp },
+    name: compact.n,
+    id: compact.i
+  };
+}
+
+function decodeLegacy(encoded: string): PairingDescription {
+  let data: any;
+  try {
+    data = JSON.parse(atob(encoded));
+  } catch {
+    throw new Error(CORRUPTED_CODE);
+  }
+  if (
+    !data ||
+    (data.type !== "offer" && data.type !== "answer") ||
+    typeof data.sdp !== "string" ||
+    typeof data.name !== "string" ||
+    typeof data.id !== "string"
+  ) {
+    throw new Error(CORRUPTED_CODE);
+  }
+  return { desc: { type: data.type, sdp: data.sdp }, name: data.name, id: data.id };
+}
+
+function compactDescription(
+  desc: RTCSessionDescriptionInit,
+  name: string,
+  id: string
+): CompactDescription | null {
+  if ((desc.type !== "offer" && desc.type !== "answer") || !desc.sdp) return null;
+
+  const lines = desc.sdp.split(/\r?\n/);
+  const media = lines.filter((line) => line.startsWith("m="));
+  if (media.length !== 1 || !media[0].startsWith("m=application ")) return null;
+
+  const attribute = (key: string) => {
+    const line = lines.find((l) => l.startsWith(`a=${key}:`));
+    return line ? line.slice(key.length + 3).trim() : "";
+  };
+
+  const [hash, digest] = attribute("fingerprint").split(" ");
+  const ufrag = attribute("ice-ufrag");
+  const pwd = attribute("ice-pwd");
+  const setup = attribute("setup");
+  if (!hash || !digest || !ufrag || !pwd || !setup) return null;
+
+  const compact: CompactDescription = {
+    t: desc.type === "offer" ? "o" : "a",
+    n: name,
+    i: id,
+    u: ufrag,
+    p: pwd,
+    h: hash,
+    f: toBase64Url(hexToBytes(digest)),
+    s: setup,
+    m: attribute("mid") || "0",
+    c: lines
+      .filter((line) => line.startsWith("a=candidate:"))
+      .map((line) => compactCandidate(line.slice("a=candidate:".length))),
+    sp: parseInt(attribute("sctp-port"), 10) || DEFAULT_SCTP_PORT
+  };
+  const maxMessageSize = parseInt(attribute("max-message-size"), 10);
+  if (maxMessageSize) {
+    compact.mm = maxMessageSize;
+  }
+  return compact;
+}
+
+// Keep the fields that describe the address; generation, ufrag and network hints are optional
+function compactCandidate(candidate: string): string {
+  const parts = candidate.trim().split(/\s+/);
+  const kept = parts.slice(0, 8);
+  for (let i = 8; i + 1 < parts.length; i += 2) {
+    if (parts[i] === "raddr" || parts[i] === "rport" || parts[i] === "tcptype") {
+      kept.push(parts[i], parts[i + 1]);
+    }
+  }
+  return kept.join(" ");
+}
+
+function buildSdp(compact: CompactDescription): string {
+  const sessionId = Math.floor(Math.random() * 1e15);
+  const lines = [
+    "v=0",
+    `o=- ${sessionId} 2 IN IP4 127.0.0.1`,
+    "s=-",
+    "t=0 0",
+    `a=group:BUNDLE ${compact.m}`,
+    "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+    "c=IN IP4 0.0.0.0",
+    ...compact.c.map((candidate) => `a=candidate:${candidate}`),
+    `a=ice-ufrag:${compact.u}`,
+    `a=ice-pwd:${compact.p}`,
+    `a=fingerprint:${compact.h} ${bytesToHex(new Uint8Array(fromBase64Url(compact.f)))}`,
+    `a=setup:${compact.s}`,
+    `a=mid:${compact.m}`,
+    `a=sctp-port:${compact.sp}`
+  ];
+  if (compact.mm) {
+    lines.push(`a=max-message-size:${compact.mm}`);
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function isCompactDescription(value: any): value is CompactDescription {
+  const isToken = (field: unknown) => typeof field === "string" && /^\S+$/.test(field);
+  return (
+    !!value &&
+    (value.t === "o" || value.t === "a") &&
+    typeof value.n === "string" &&
+    typeof value.i === "string" &&
+    isToken(value.u) &&
+    isToken(value.p) &&
+    isToken(value.h) &&
+    isToken(value.f) &&
+    isToken(value.s) &&
+    isToken(value.m) &&
+    Array.isArray(value.c) &&
+    value.c.every((candidate: unknown) => typeof candidate === "string" && !/[\r\n]/.test(candidate)) &&
+    Number.isInteger(value.sp) &&
+    (value.mm === undefined || Number.isInteger(value.mm))
+  );
+}
+
+// zlib rather than raw deflate: its checksum catches codes damaged in transit
+async function deflate(data: BufferSource): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(data: BufferSource): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): ArrayBuffer {
+  if (!/^[A-Za-z0-9_-]*$/.test(encoded)) {
+    throw new Error(CORRUPTED_CODE);
+  }
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  return fromBase64(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const pairs = hex.split(":");
+  return new Uint8Array(pairs.map((pair) => parseInt(pair, 16)));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0").toUpperCase()).join(":");
+}
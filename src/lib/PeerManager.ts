@@ -1,5 +1,7 @@
 // PeerManager.ts - Handles WebRTC mesh network for broadcast chat
 
+import { DEFAULT_ICE_CONFIG } from "./IceConfig";
+
 export interface Message {
   id: string;
   sender: string;
@@ -23,30 +25,24 @@ export type SignalType =
   | { type: 'ice-candidate'; from: string; to: string; candidate: RTCIceCandidateInit }
   | { type: 'leave'; peerId: string };
 
-const ICE_SERVERS: RTCConfiguration = {
-  iceServers: [
-    { urls: "stun:stun.l.google.com:19302" },
-    { urls: "stun:stun1.l.google.com:19302" },
-    { urls: "stun:stun2.l.google.com:19302" },
-  ]
-};
-
 export class PeerManager {
   private peerId: string;
   private peerName: string;
   private peers: Map<string, Peer> = new Map();
   private signalChannel: BroadcastChannel;
   private roomId: string;
+  private iceConfig: RTCConfiguration;
 
   private onMessageCallback?: (message: Message) => void;
   private onPeerJoinCallback?: (peerId: string, peerName: string) => void;
   private onPeerLeaveCallback?: (peerId: string) => void;
   private onConnectionChangeCallback?: (connected: boolean, peerCount: number) => void;
 
-  constructor(roomId: string, peerName: string) {
+  constructor(roomId: string, peerName: string, iceConfig: RTCConfiguration = DEFAULT_ICE_CONFIG) {
     this.peerId = this.generateId();
     this.peerName = peerName;
     this.roomId = roomId;
+    this.iceConfig = iceConfig;
     this.signalChannel = new BroadcastChannel(`peerbeam-${roomId}`);
 
     this.signalChannel.onmessage = (event) => this.handleSignal(event.data);
@@ -108,7 +104,7 @@ export class PeerManager {
   }
 
   private async createConnection(remotePeerId: string, remotePeerName: string, createOffer: boolean) {
-    const pc = new RTCPeerConnection(ICE_SERVERS);
+    const pc = new RTCPeerConnection(this.iceConfig);
 
     const peer: Peer = {
       id: remotePeerId,
@@ -0,0 +1,163 @@
+// PeerStats.ts - Per-peer connection diagnostics built on RTCPeerConnection.getStats()
+//
+// Snapshots are plain data so they can cross the session port to the popup.
+
+export interface StateTransition {
+  timestamp: number;
+  // Which state machine changed: the peer connection, ICE, signaling, the data channel,
+  // or our own summary in PeerInfo.status
+  kind: "connection" | "ice" | "signaling" | "channel" | "status";
+  state: string;
+}
+
+export interface CandidateInfo {
+  // host, srflx (behind NAT, via STUN), prflx or relay (via TURN)
+  type: string;
+  protocol: string;
+  address: string;
+  // Transport to the TURN server, for relay candidates
+  relayProtocol?: string;
+}
+
+export interface PeerStats {
+  peerId: string;
+  peerName: string;
+  timestamp: number;
+  status: string;
+  connectionState: RTCPeerConnectionState;
+  iceConnectionState: RTCIceConnectionState;
+  iceGatheringState: RTCIceGatheringState;
+  signalingState: RTCSignalingState;
+  dtlsState: string | null;
+  channelState: RTCDataChannelState | null;
+  bufferedAmount: number;
+  protocolVersion: number | null;
+  authenticated: boolean;
+  localCandidate: CandidateInfo | null;
+  remoteCandidate: CandidateInfo | null;
+  // Milliseconds, from the selected candidate pair
+  roundTripTime: number | null;
+  bytesSent: number;
+  bytesReceived: number;
+  iceRestarts: number;
+  timeline: StateTransition[];
+}
+
+// Transitions kept per peer; old ones are dropped first
+export const MAX_TIMELINE_ENTRIES = 50;
+
+export function addTransition(timeline: StateTransition[], kind: StateTransition["kind"], state: string) {
+  timeline.push({ timestamp: Date.now(), kind, state });
+  if (timeline.length > MAX_TIMELINE_ENTRIES) {
+    timeline.splice(0, timeline.length - MAX_TIMELINE_ENTRIES);
+  }
+}
+
+type TransportStats = Pick<PeerStats, "dtlsState" | "localCandidate" | "remoteCandidate" | "roundTripTime" | "bytesSent" | "bytesReceived">;
+
+// Pull the selected candidate pair and transport counters out of a stats report
+export function readTransportStats(report: RTCStatsReport): TransportStats {
+  const result: TransportStats = {
+    dtlsState: null,
+    localCandidate: null,
+    remoteCandidate: null,
+    roundTripTime: null,
+    bytesSent: 0,
+    bytesReceived: 0
+  };
+
+  let pairId: string | undefined;
+  report.forEach((stats) => {
+    if (stats.type === "transport") {
+      result.dtlsState = stats.dtlsState ?? null;
+      result.bytesSent += stats.bytesSent ?? 0;
+      result.bytesReceived += stats.bytesReceived ?? 0;
+      pairId = pairId ?? stats.selectedCandidatePairId;
+    }
+  });
+
+  // Browsers without selectedCandidatePairId mark the pair itself
+  let pair: any;
+  report.forEach((stats) => {
+    if (stats.type !== "candidate-pair") return;
+    if (pairId ? stats.id === pairId : stats.selected || (stats.nominated && stats.state === "succeeded")) {
+      pair = stats;
+    }
+  });
+  if (!pair) return result;
+
+  if (pair.currentRoundTripTime !== undefined) {
+    result.roundTripTime = Math.round(pair.currentRoundTripTime * 1000);
+  }
+  result.localCandidate = readCandidate(report.get(pair.localCandidateId));
+  result.remoteCandidate = readCandidate(report.get(pair.remoteCandidateId));
+  return result;
+}
+
+function readCandidate(stats: any): CandidateInfo | null {
+  if (!stats) return null;
+  const candidate: CandidateInfo = {
+    type: stats.candidateType ?? "unknown",
+    protocol: stats.protocol ?? "unknown",
+    address: stats.address ? `${stats.address}:${stats.port}` : "(hidden)"
+  };
+  if (stats.relayProtocol) {
+    candidate.relayProtocol = stats.relayProtocol;
+  }
+  return candidate;
+}
+
+// A short hint at the likely cause, for people who do not read ICE states
+export function diagnose(stats: PeerStats): string {
+  if (stats.connectionState === "failed" || stats.iceConnectionState === "failed") {
+    return stats.localCandidate
+      ? "The link failed after working; the network changed or the peer went away"
+      : "No network path found; a TURN server is probably needed for this NAT";
+  }
+  if (stats.iceConnectionState === "checking" || stats.iceConnectionState === "new") {
+    return "Still looking for a network path";
+  }
+  if (stats.connectionState === "disconnected") {
+    return "The link dropped and is trying to recover";
+  }
+  if (stats.channelState !== "open") {
+    return "The network path works, but the chat channel is not open";
+  }
+  if (stats.protocolVersion === null) {
+    return "Waiting for the peer's handshake";
+  }
+  if (!stats.authenticated) {
+    return "Waiting for the peer to prove it knows the room passphrase";
+  }
+  if (stats.localCandidate?.type === "relay" || stats.remoteCandidate?.type === "relay") {
+    return "Connected through a TURN relay";
+  }
+  return "Connected directly";
+}
+
+function describeCandidate(candidate: CandidateInfo | null): string {
+  if (!candidate) return "none";
+  const relay = candidate.relayProtocol ? `, relay over ${candidate.relayProtocol}` : "";
+  return `${candidate.type} ${candidate.protocol} ${candidate.address}${relay}`;
+}
+
+// Plain text for bug reports
+export function formatDiagnostics(stats: PeerStats[]): string {
+  return stats.map((peer) => [
+    `Peer: ${peer.peerName} (${peer.peerId})`,
+    `Captured: ${new Date(peer.timestamp).toISOString()}`,
+    `Summary: ${diagnose(peer)}`,
+    `Status: ${peer.status}`,
+    `Connection: ${peer.connectionState}, ICE: ${peer.iceConnectionState}, gathering: ${peer.iceGatheringState}`,
+    `Signaling: ${peer.signalingState}, DTLS: ${peer.dtlsState ?? "unknown"}`,
+    `Data channel: ${peer.channelState ?? "none"}, buffered: ${peer.bufferedAmount} bytes`,
+    `Protocol: ${peer.protocolVersion === null ? "not negotiated" : `v${peer.protocolVersion}`}, authenticated: ${peer.authenticated}`,
+    `Local candidate: ${describeCandidate(peer.localCandidate)}`,
+    `Remote candidate: ${describeCandidate(peer.remoteCandidate)}`,
+    `RTT: ${peer.roundTripTime === null ? "unknown" : `${peer.roundTripTime} ms`}`,
+    `Bytes sent: ${peer.bytesSent}, received: ${peer.bytesReceived}`,
+    `ICE restarts: ${peer.iceRestarts}`,
+    "Timeline:",
+    ...peer.timeline.map((t) => `  ${new Date(t.timestamp).toISOString()} ${t.kind} -> ${t.state}`)
+  ].join("\n")).join("\n\n");
+}
@@ -0,0 +1,333 @@
+// Protocol.ts - Versioned wire envelope and validation for data channel messages
+//
+// v1 builds sent a bare Message as JSON (plus a {type: "handshake"} frame in
+// serverless mode). v2 wraps everything in { v, kind, ... } and negotiates the
+// version during the handshake so mixed rooms degrade to plain chat.
+
+import { FileInfo, MAX_FILE_SIZE } from "./FileTransfer";
+
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Text frames above this size are dropped before parsing
+export const MAX_FRAME_SIZE = 256 * 1024;
+export const MAX_TEXT_LENGTH = 10000;
+const MAX_ID_LENGTH = 64;
+const MAX_NAME_LENGTH = 100;
+const MAX_EMOJI_LENGTH = 16;
+// Upper bound on history a peer may ask for, and on messages in one history frame
+export const MAX_HISTORY_LIMIT = 500;
+const MAX_MEMBERS = 256;
+// Routed frames are dropped after this many hops
+export const MAX_ROUTE_HOPS = 4;
+// Gossip frames travel further: the overlay is sparse, so paths are longer
+export const MAX_GOSSIP_HOPS = 8;
+// Rooms with more peers than this use the gossip overlay. Fixed by the protocol rather than
+// set per user, so every member of a room picks the same topology.
+export const GOSSIP_THRESHOLD = 10;
+const MAX_CANDIDATE_LENGTH = 1024;
+// Base64 public keys and signatures
+const MAX_KEY_LENGTH = 512;
+
+export interface Message {
+  id: string;
+  sender: string;
+  senderName: string;
+  text: string;
+  timestamp: number;
+  file?: FileInfo;
+  // ID of the message this one replies to
+  replyTo?: string;
+  // Private messages: the one peer it was sent to, over our direct link only
+  to?: string;
+}
+
+export interface SendOptions {
+  replyTo?: string;
+}
+
+// Raised when a peer sends something that contradicts what we know about its identity
+export interface SecurityEvent {
+  type: "spoofed-sender" | "identity-mismatch";
+  peerId: string;
+  peerName: string;
+  detail: string;
+  timestamp: number;
+}
+
+export type ControlMessage =
+  | { type: "file-cancel"; transferId: string }
+  | { type: "typing"; active: boolean }
+  | { type: "read"; messageId: string }
+  | { type: "edit"; messageId: string; text: string; editedAt: number }
+  | { type: "delete"; messageId: string }
+  | { type: "reaction"; messageId: string; emoji: string; add: boolean }
+  // Which of the sender's media streams is a screen share, sent before its tracks; null when it stops
+  | { type: "screen-share"; streamId: string | null };
+
+// Offer, answer or ICE candidate relayed over data channels in serverless rooms
+export type RelayedSignal =
+  | { type: "offer" | "answer"; description: RTCSessionDescriptionInit }
+  | { type: "ice-candidate"; candidate: RTCIceCandidateInit };
+
+export interface MemberInfo {
+  id: string;
+  name: string;
+}
+
+// Edits, deletions and reactions, tagged with the peer that made them
+export type MessageUpdate =
+  Extract<ControlMessage, { type: "edit" | "delete" | "reaction" }> & { peerId: string };
+
+// What may travel inside a routed or gossip frame
+export type RoutablePayload =
+  | { kind: "chat"; message: Message }
+  | { kind: "control"; control: ControlMessage };
+
+// What the author of a relayed frame signs; the ttl is left out because every relay lowers it
+export function relaySigningInput(
+  frame: { kind: string; id: string; from: string; to?: string; payload: RoutablePayload }
+): string {
+  return JSON.stringify([frame.kind, frame.id, frame.from, frame.to ?? "", frame.payload]);
+}
+
+export type WirePayload =
+  | RoutablePayload
+  // Builds with a signing identity add their public key and a proof they hold it
+  | {
+      kind: "handshake";
+      id: string;
+      name: string;
+      minVersion: number;
+      maxVersion: number;
+      publicKey?: string;
+      proof?: string;
+    }
+  | { kind: "history-request"; limit: number }
+  | { kind: "history"; messages: Message[] }
+  | { kind: "signal"; from: string; fromName: string; to: string; signal: RelayedSignal }
+  | { kind: "members"; peers: MemberInfo[] }
+  // Chat or control for a peer we have no working link to, forwarded by peers that do
+  // Signed by the author, since the relays in between could otherwise forge it
+  | {
+      kind: "routed";
+      id: string;
+      from: string;
+      to: string;
+      ttl: number;
+      payload: RoutablePayload;
+      publicKey: string;
+      signature: string;
+    }
+  // Chat or control for the whole room, flooded between neighbors in gossip rooms; signed like routed frames
+  | {
+      kind: "gossip";
+      id: string;
+      from: string;
+      ttl: number;
+      payload: RoutablePayload;
+      publicKey: string;
+      signature: string;
+    }
+  | { kind: "auth-challenge"; challenge: string }
+  | { kind: "auth-response"; proof: string }
+  | { kind: "encrypted"; data: string };
+
+export interface ParsedEnvelope {
+  version: number;
+  payload: WirePayload;
+}
+
+export function encodeEnvelope(payload: WirePayload, version: number = PROTOCOL_VERSION): string {
+  // v1 serverless builds look for type: "handshake" to learn our name
+  if (payload.kind === "handshake") {
+    return JSON.stringify({ v: version, type: "handshake", ...payload });
+  }
+
+  // v1 peers only understand bare chat messages
+  if (version < 2) {
+    return payload.kind === "chat" ? JSON.stringify(payload.message) : "";
+  }
+  return JSON.stringify({ v: version, ...payload });
+}
+
+// Pick the highest version both sides support, or null if the ranges don't overlap
+export function negotiateVersion(minVersion: number, maxVersion: number): number | null {
+  const version = Math.min(PROTOCOL_VERSION, maxVersion);
+  return version >= Math.max(MIN_PROTOCOL_VERSION, minVersion) ? version : null;
+}
+
+// Validators
+
+function isString(value: unknown, maxLength: number): value is string {
+  return typeof value === "string" && value.length <= maxLength;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isVersion(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+function isFileInfo(value: unknown): value is FileInfo {
+  return isObject(value) &&
+    isString(value.transferId, MAX_ID_LENGTH) &&
+    isString(value.name, 255) &&
+    Number.isSafeInteger(value.size) && value.size >= 0 && value.size <= MAX_FILE_SIZE &&
+    isString(value.mimeType, 255) &&
+    typeof value.sha256 === "string" && /^[0-9a-f]{64}$/.test(value.sha256);
+}
+
+export function isMessage(value: unknown): value is Message {
+  return isObject(value) &&
+    isString(value.id, MAX_ID_LENGTH) &&
+    isString(value.sender, MAX_ID_LENGTH) &&
+    isString(value.senderName, MAX_NAME_LENGTH) &&
+    isString(value.text, MAX_TEXT_LENGTH) &&
+    Number.isFinite(value.timestamp) &&
+    (value.file === undefined || isFileInfo(value.file)) &&
+    (value.replyTo === undefined || isString(value.replyTo, MAX_ID_LENGTH)) &&
+    (value.to === undefined || isString(value.to, MAX_ID_LENGTH));
+}
+
+function isControlMessage(value: unknown): value is ControlMessage {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case "file-cancel":
+      return isString(value.transferId, MAX_ID_LENGTH);
+    case "typing":
+      return typeof value.active === "boolean";
+    case "read":
+    case "delete":
+      return isString(value.messageId, MAX_ID_LENGTH);
+    case "edit":
+      return isString(value.messageId, MAX_ID_LENGTH) &&
+        isString(value.text, MAX_TEXT_LENGTH) &&
+        Number.isFinite(value.editedAt);
+    case "reaction":
+      return isString(value.messageId, MAX_ID_LENGTH) &&
+        isString(value.emoji, MAX_EMOJI_LENGTH) && value.emoji.length > 0 &&
+        typeof value.add === "boolean";
+    case "screen-share":
+      return value.streamId === null || isString(value.streamId, MAX_ID_LENGTH);
+    default:
+      return false;
+  }
+}
+
+function isRelayedSignal(value: unknown): value is RelayedSignal {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case "offer":
+    case "answer":
+      return isObject(value.description) &&
+        value.description.type === value.type &&
+        isString(value.description.sdp, MAX_FRAME_SIZE);
+    case "ice-candidate":
+      return isObject(value.candidate) &&
+        isString(value.candidate.candidate, MAX_CANDIDATE_LENGTH) &&
+        (value.candidate.sdpMid == null || isString(value.candidate.sdpMid, MAX_ID_LENGTH)) &&
+        (value.candidate.sdpMLineIndex == null || Number.isInteger(value.candidate.sdpMLineIndex)) &&
+        (value.candidate.usernameFragment == null || isString(value.candidate.usernameFragment, 256));
+    default:
+      return false;
+  }
+}
+
+function isMemberInfo(value: unknown): value is MemberInfo {
+  return isObject(value) &&
+    isString(value.id, MAX_ID_LENGTH) &&
+    isString(value.name, MAX_NAME_LENGTH);
+}
+
+function isRoutablePayload(value: unknown): boolean {
+  return isObject(value) &&
+    (value.kind === "chat" || value.kind === "control") &&
+    isPayload(value);
+}
+
+function isPayload(data: Record<string, any>): boolean {
+  switch (data.kind) {
+    case "chat":
+      return isMessage(data.message);
+    case "handshake":
+      return isString(data.id, MAX_ID_LENGTH) &&
+        isString(data.name, MAX_NAME_LENGTH) &&
+        isVersion(data.minVersion) &&
+        isVersion(data.maxVersion) &&
+        (data.publicKey === undefined || isString(data.publicKey, MAX_KEY_LENGTH)) &&
+        (data.proof === undefined || isString(data.proof, MAX_KEY_LENGTH));
+    case "control":
+      return isControlMessage(data.control);
+    case "history-request":
+      return Number.isInteger(data.limit) && data.limit >= 0 && data.limit <= MAX_HISTORY_LIMIT;
+    case "history":
+      return Array.isArray(data.messages) &&
+        data.messages.length <= MAX_HISTORY_LIMIT &&
+        data.messages.every(isMessage);
+    case "signal":
+      return isString(data.from, MAX_ID_LENGTH) &&
+        isString(data.fromName, MAX_NAME_LENGTH) &&
+        isString(data.to, MAX_ID_LENGTH) &&
+        isRelayedSignal(data.signal);
+    case "members":
+      return Array.isArray(data.peers) &&
+        data.peers.length <= MAX_MEMBERS &&
+        data.peers.every(isMemberInfo);
+    case "routed":
+      return isString(data.id, MAX_ID_LENGTH) &&
+        isString(data.from, MAX_ID_LENGTH) &&
+        isString(data.to, MAX_ID_LENGTH) &&
+        Number.isInteger(data.ttl) && data.ttl >= 1 && data.ttl <= MAX_ROUTE_HOPS &&
+        isRoutablePayload(data.payload) &&
+        isString(data.publicKey, MAX_KEY_LENGTH) &&
+        isString(data.signature, MAX_KEY_LENGTH);
+    case "gossip":
+      return isString(data.id, MAX_ID_LENGTH) &&
+        isString(data.from, MAX_ID_LENGTH) &&
+        Number.isInteger(data.ttl) && data.ttl >= 1 && data.ttl <= MAX_GOSSIP_HOPS &&
+        isRoutablePayload(data.payload) &&
+        isString(data.publicKey, MAX_KEY_LENGTH) &&
+        isString(data.signature, MAX_KEY_LENGTH);
+    case "auth-challenge":
+      return isString(data.challenge, 256);
+    case "auth-response":
+      return isString(data.proof, 256);
+    case "encrypted":
+      return isString(data.data, MAX_FRAME_SIZE);
+    default:
+      // Unknown kinds come from newer builds; ignore them
+      return false;
+  }
+}
+
+// Parse and validate a text frame; malformed, oversized or unknown frames yield null
+export function parseEnvelope(raw: string): ParsedEnvelope | null {
+  if (raw.length > MAX_FRAME_SIZE) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(data)) return null;
+
+  // v1: bare chat message or serverless handshake, no envelope
+  if (data.v === undefined) {
+    if (data.type === "handshake" && isString(data.id, MAX_ID_LENGTH) && isString(data.name, MAX_NAME_LENGTH)) {
+      return {
+        version: 1,
+        payload: { kind: "handshake", id: data.id, name: data.name, minVersion: 1, maxVersion: 1 }
+      };
+    }
+    return isMessage(data) ? { version: 1, payload: { kind: "chat", message: data } } : null;
+  }
+
+  if (!isVersion(data.v) || !isPayload(data)) return null;
+
+  const { v, ...payload } = data;
+  return { version: v, payload: payload as WirePayload };
+}
@@ -0,0 +1,149 @@
+// RoomCrypto.ts - Passphrase-derived room key for end-to-end encrypted data channels
+
+const PBKDF2_ITERATIONS = 250000;
+const IV_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(encoded: string): ArrayBuffer {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer as ArrayBuffer;
+}
+
+// Extract the DTLS certificate fingerprint from an SDP blob
+export function dtlsFingerprint(sdp: string | undefined): string {
+  const match = sdp?.match(/a=fingerprint:\S+ (\S+)/);
+  return match ? match[1].toUpperCase() : "";
+}
+
+export class RoomCrypto {
+  private aesKey: CryptoKey;
+  private hmacKey: CryptoKey;
+
+  private constructor(aesKey: CryptoKey, hmacKey: CryptoKey) {
+    this.aesKey = aesKey;
+    this.hmacKey = hmacKey;
+  }
+
+  // Derive separate encryption and authentication keys from the passphrase.
+  // The room ID is the salt, so the same passphrase yields different keys per room.
+  static async fromPassphrase(roomId: string, passphrase: string): Promise<RoomCrypto> {
+    const material = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveBits"]
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      {
+        name: "PBKDF2",
+        salt: encoder.encode(`peerbeam:${roomId}`),
+        iterations: PBKDF2_ITERATIONS,
+        hash: "SHA-256"
+      },
+      material,
+      512
+    );
+
+    const aesKey = await crypto.subtle.importKey(
+      "raw",
+      bits.slice(0, 32),
+      "AES-GCM",
+      false,
+      ["encrypt", "decrypt"]
+    );
+    const hmacKey = await crypto.subtle.importKey(
+      "raw",
+      bits.slice(32, 64),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+
+    return new RoomCrypto(aesKey, hmacKey);
+  }
+
+  // Output layout: [12 byte IV][AES-GCM ciphertext + tag]
+  async encrypt(data: ArrayBuffer): Promise<ArrayBuffer> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, this.aesKey, data);
+
+    const out = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+    out.set(iv);
+    out.set(new Uint8Array(ciphertext), IV_LENGTH);
+    return out.buffer;
+  }
+
+  // Throws if the payload was tampered with or encrypted under another key
+  async decrypt(data: ArrayBuffer): Promise<ArrayBuffer> {
+    const bytes = new Uint8Array(data);
+    return crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: bytes.subarray(0, IV_LENGTH) },
+      this.aesKey,
+      bytes.subarray(IV_LENGTH)
+    );
+  }
+
+  async encryptText(text: string): Promise<string> {
+    return toBase64(await this.encrypt(encoder.encode(text).buffer as ArrayBuffer));
+  }
+
+  async decryptText(payload: string): Promise<string> {
+    return decoder.decode(await this.decrypt(fromBase64(payload)));
+  }
+
+  createChallenge(): string {
+    return toBase64(crypto.getRandomValues(new Uint8Array(32)));
+  }
+
+  // Proof that the prover holds the room key. Binding both DTLS fingerprints
+  // means a relay sitting between two peers cannot forward a valid proof.
+  async prove(challenge: string, proverId: string, verifierId: string, fingerprints: string[]): Promise<string> {
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      this.hmacKey,
+      this.proofInput(challenge, proverId, verifierId, fingerprints)
+    );
+    return toBase64(signature);
+  }
+
+  async verify(
+    challenge: string,
+    proverId: string,
+    verifierId: string,
+    fingerprints: string[],
+    proof: string
+  ): Promise<boolean> {
+    try {
+      return await crypto.subtle.verify(
+        "HMAC",
+        this.hmacKey,
+        fromBase64(proof),
+        this.proofInput(challenge, proverId, verifierId, fingerprints)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private proofInput(challenge: string, proverId: string, verifierId: string, fingerprints: string[]): BufferSource {
+    const sorted = [...fingerprints].sort().join(",");
+    return encoder.encode(`${challenge}|${proverId}|${verifierId}|${sorted}`);
+  }
+}
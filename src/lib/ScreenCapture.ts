@@ -0,0 +1,28 @@
+// ScreenCapture.ts - Capture a tab, window or screen for sharing into a room
+//
+// The offscreen document makes the capture from a stream ID. Tab IDs come from
+// chrome.tabCapture, which background.js calls for the tab the popup was opened on;
+// window and screen IDs come from Chrome's picker. The offscreen document is never visible,
+// and the popup closes as soon as the picker takes focus, so the call window shows it.
+
+export type ShareSource = "tab" | "display";
+
+// Show Chrome's window and screen picker; resolves to "" if the user cancels it.
+// Without a target tab the ID is usable by any of our own pages, the offscreen document included.
+export function chooseDisplay(): Promise<string> {
+  return new Promise((resolve) => {
+    chrome.desktopCapture.chooseDesktopMedia(["window", "screen"], (streamId) => resolve(streamId));
+  });
+}
+
+// Video only: shares are view-only, and capturing system audio would echo calls back into the room
+export function captureSource(source: ShareSource, streamId: string): Promise<MediaStream> {
+  // Consuming a stream ID needs Chrome's legacy constraint syntax
+  const constraints = {
+    audio: false,
+    video: {
+      mandatory: { chromeMediaSource: source === "tab" ? "tab" : "desktop", chromeMediaSourceId: streamId }
+    }
+  };
+  return navigator.mediaDevices.getUserMedia(constraints as unknown as MediaStreamConstraints);
+}
@@ -0,0 +1,138 @@
+// Session.ts - Messages between the popup and the offscreen document that owns the connections
+//
+// The popup is destroyed whenever it loses focus, so the MeshPeerManager lives in an
+// offscreen document instead. The popup attaches over a chrome.runtime port, receives
+// the full session state on connect and after every change, and sends commands back.
+
+import { ChatMessage } from "./ChatState";
+import { Contact } from "./Contacts";
+import { BridgeSignal } from "./MediaBridge";
+import { ShareSource } from "./ScreenCapture";
+import { PeerInfo, RoomInfo, Topology } from "./MeshPeerManager";
+import { PeerStats } from "./PeerStats";
+
+export const SESSION_PORT = "peerbeam-session";
+
+export type Screen = "connect" | "lobby" | "pairing" | "chat";
+
+// Serverless mode: the creator shares an invite code, the joiner answers with its own code.
+// Anyone already in a serverless room can create further invites.
+export interface PairingState {
+  role: "creator" | "joiner";
+  stage: "enter-code" | "generating" | "share-code" | "connecting";
+  // Our offer or answer, once ICE gathering has finished
+  localCode: string;
+}
+
+// Our side of a call; the media itself reaches the call view over a MediaBridge
+export interface CallState {
+  microphone: boolean;
+  camera: boolean;
+}
+
+export interface SessionState {
+  screen: Screen;
+  isConnecting: boolean;
+  peerId: string;
+  // Our signing key, which peerId is derived from
+  publicKey: string;
+  userName: string;
+  serverConnected: boolean;
+  rooms: RoomInfo[];
+  roomId: string;
+  isEncrypted: boolean;
+  messages: ChatMessage[];
+  peers: PeerInfo[];
+  topology: Topology;
+  typingPeerIds: string[];
+  // peer ID -> ID of the latest message that peer has read
+  readReceipts: Record<string, string>;
+  // Set while in, or joining, a room without a signaling server
+  pairing: PairingState | null;
+  call: CallState | null;
+  // Peer ID -> ID of the MediaStream it sends, for everyone in a call, us included
+  mediaStreams: Record<string, string>;
+  // Peer ID -> ID of the screen share stream it presents, us included
+  screenShares: Record<string, string>;
+  contacts: Contact[];
+  // Peers in the room using the name of a contact with a different key
+  keyWarnings: string[];
+}
+
+export const INITIAL_SESSION_STATE: SessionState = {
+  screen: "connect",
+  isConnecting: false,
+  peerId: "",
+  publicKey: "",
+  userName: "",
+  serverConnected: false,
+  rooms: [],
+  roomId: "",
+  isEncrypted: false,
+  messages: [],
+  peers: [],
+  topology: "mesh",
+  typingPeerIds: [],
+  readReceipts: {},
+  pairing: null,
+  call: null,
+  mediaStreams: {},
+  screenShares: {},
+  contacts: [],
+  keyWarnings: []
+};
+
+// Popup -> offscreen document
+export type SessionCommand =
+  | { type: "connect"; userName: string; serverUrl: string; iceConfig: RTCConfiguration }
+  | { type: "start-pairing"; userName: string; role: PairingState["role"]; iceConfig: RTCConfiguration }
+  | { type: "apply-pairing-code"; code: string }
+  | { type: "cancel-pairing" }
+  | { type: "get-rooms" }
+  | { type: "join-room"; roomId: string; passphrase: string }
+  | { type: "leave-room" }
+  // With a peer ID in to, the message is private to that peer
+  | { type: "send-message"; text: string; replyTo?: string; to?: string }
+  | { type: "edit-message"; messageId: string; text: string }
+  | { type: "delete-message"; messageId: string }
+  | { type: "react"; messageId: string; emoji: string; add: boolean }
+  | { type: "typing"; active: boolean }
+  | { type: "read"; messageId: string }
+  // Files cannot cross a runtime port, so the popup passes a blob URL the host can fetch
+  | { type: "send-file"; url: string; name: string; mimeType: string }
+  | { type: "cancel-file"; transferId: string }
+  | { type: "clear-history" }
+  | { type: "start-call"; video: boolean }
+  | { type: "end-call" }
+  | { type: "set-microphone"; enabled: boolean }
+  | { type: "set-camera"; enabled: boolean }
+  // The stream ID comes from chrome.tabCapture for tabs, or Chrome's picker for windows and screens
+  | { type: "start-share"; source: ShareSource; streamId: string }
+  | { type: "stop-share" }
+  // Sent by the call view: the first one opens a media bridge for its port
+  | { type: "media-bridge"; signal: BridgeSignal | null }
+  // Answered with a peer-stats event to the asking port only
+  | { type: "get-peer-stats"; peerId: string }
+  // After comparing safety numbers out of band
+  | { type: "verify-contact"; peerId: string; verified: boolean }
+  | { type: "remove-contact"; peerId: string };
+
+// Offscreen document -> background.js, reported only while no popup is attached
+export interface SessionActivity {
+  kind: "message" | "join" | "leave";
+  roomId: string;
+  title: string;
+  text: string;
+  mention: boolean;
+}
+
+// Offscreen document -> popup
+export type SessionEvent =
+  | { type: "state"; state: SessionState }
+  | { type: "error"; message: string }
+  | { type: "file-read"; url: string }
+  | { type: "media-bridge"; signal: BridgeSignal }
+  // Only sent to ports with a media bridge, several times a second during calls
+  | { type: "audio-levels"; levels: Record<string, number> }
+  // Null when we have no direct link to the peer
+  | { type: "peer-stats"; peerId: string; stats: PeerStats | null };
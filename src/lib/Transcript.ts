@@ -0,0 +1,209 @@
+// Transcript.ts - Export a room's chat as JSON, Markdown or HTML, and read JSON exports back
+
+import { ChatMessage, messagePreview } from "./ChatState";
+import { formatFileSize } from "./FileTransfer";
+import { isMessage } from "./Protocol";
+
+const TRANSCRIPT_FORMAT = "peerbeam-transcript";
+const TRANSCRIPT_VERSION = 1;
+
+export type TranscriptFormat = "json" | "markdown" | "html";
+
+// Blob URLs and transfer progress only mean something inside the popup that made them
+export type TranscriptMessage = Omit<ChatMessage, "fileUrl" | "transfers">;
+
+export interface Transcript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  roomId: string;
+  exportedAt: number;
+  messages: TranscriptMessage[];
+}
+
+export function createTranscript(roomId: string, messages: ChatMessage[]): Transcript {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    roomId,
+    exportedAt: Date.now(),
+    messages: messages.map(({ fileUrl, transfers, ...message }) => message)
+  };
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function senderLabel(message: TranscriptMessage): string {
+  return message.isOwn ? `${message.senderName} (me)` : message.senderName;
+}
+
+function reactionSummary(message: TranscriptMessage): string {
+  return Object.entries(message.reactions || {})
+    .map(([emoji, peers]) => `${emoji} ${peers.length}`)
+    .join("  ");
+}
+
+function messageBody(message: TranscriptMessage): string {
+  if (message.deleted) return "(message deleted)";
+  if (message.file) return `[File] ${message.file.name} (${formatFileSize(message.file.size)})`;
+  return message.text;
+}
+
+function toMarkdown(transcript: Transcript): string {
+  const byId = new Map(transcript.messages.map((m) => [m.id, m]));
+  const lines = [
+    `# PeerBeam transcript: room ${transcript.roomId}`,
+    "",
+    `Exported ${formatTime(transcript.exportedAt)}`,
+    ""
+  ];
+
+  for (const message of transcript.messages) {
+    if (message.isSystem) {
+      lines.push(`_${formatTime(message.timestamp)} · ${message.text}_`, "");
+      continue;
+    }
+
+    lines.push(`**${senderLabel(message)}** · ${formatTime(message.timestamp)}${message.editedAt ? " (edited)" : ""}`);
+    const parent = message.replyTo ? byId.get(message.replyTo) : undefined;
+    if (message.replyTo) {
+      lines.push(`> Reply to ${parent ? `${parent.senderName}: ${messagePreview(parent)}` : "an earlier message"}`, ">");
+    }
+    // Keep multi-line messages inside the same paragraph
+    lines.push(messageBody(message).split("\n").join("  \n"));
+    const reactions = reactionSummary(message);
+    if (reactions) lines.push("", reactions);
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toHtml(transcript: Transcript): string {
+  const byId = new Map(transcript.messages.map((m) => [m.id, m]));
+  const rows = transcript.messages.map((message) => {
+    if (message.isSystem) {
+      return `<p class="system">${escapeHtml(formatTime(message.timestamp))} · ${escapeHtml(message.text)}</p>`;
+    }
+
+    const parent = message.replyTo ? byId.get(message.replyTo) : undefined;
+    const quote = message.replyTo
+      ? `<blockquote>${escapeHtml(parent ? `${parent.senderName}: ${messagePreview(parent)}` : "Original message unavailable")}</blockquote>`
+      : "";
+    const reactions = reactionSummary(message);
+
+    return [
+      `<div class="message${message.isOwn ? " own" : ""}">`,
+      `<div class="meta"><strong>${escapeHtml(senderLabel(message))}</strong> · ${escapeHtml(formatTime(message.timestamp))}${message.editedAt ? " (edited)" : ""}</div>`,
+      quote,
+      `<div class="${message.deleted ? "body deleted" : "body"}">${escapeHtml(messageBody(message))}</div>`,
+      reactions ? `<div class="reactions">${escapeHtml(reactions)}</div>` : "",
+      "</div>"
+    ].join("");
+  });
+
+  const title = `PeerBeam transcript: room ${escapeHtml(transcript.roomId)}`;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; background: #0f172a; color: #f8fafc; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+  .system { text-align: center; color: #64748b; font-size: 0.8rem; font-style: italic; }
+  .message { background: #334155; border-radius: 8px; padding: 0.5rem 0.75rem; margin: 0.5rem 0; max-width: 80%; }
+  .message.own { background: #2563eb; margin-left: auto; }
+  .meta { font-size: 0.75rem; opacity: 0.7; margin-bottom: 0.25rem; }
+  .body { white-space: pre-wrap; word-wrap: break-word; }
+  .deleted { font-style: italic; opacity: 0.6; }
+  blockquote { margin: 0 0 0.25rem; padding-left: 0.5rem; border-left: 2px solid #94a3b8; font-size: 0.8rem; opacity: 0.8; }
+  .reactions { font-size: 0.8rem; margin-top: 0.25rem; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="system">Exported ${escapeHtml(formatTime(transcript.exportedAt))}</p>
+${rows.join("\n")}
+</body>
+</html>
+`;
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(transcript, null, 2);
+    case "markdown":
+      return toMarkdown(transcript);
+    case "html":
+      return toHtml(transcript);
+  }
+}
+
+const FILE_TYPES: Record<TranscriptFormat, { extension: string; mimeType: string }> = {
+  json: { extension: "json", mimeType: "application/json" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  html: { extension: "html", mimeType: "text/html" }
+};
+
+export function transcriptFile(transcript: Transcript, format: TranscriptFormat): File {
+  const { extension, mimeType } = FILE_TYPES[format];
+  const date = new Date(transcript.exportedAt).toISOString().slice(0, 10);
+  return new File(
+    [renderTranscript(transcript, format)],
+    `peerbeam-${transcript.roomId}-${date}.${extension}`,
+    { type: mimeType }
+  );
+}
+
+function isReactions(value: unknown): value is Record<string, string[]> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) &&
+    Object.values(value).every((peers) =>
+      Array.isArray(peers) && peers.every((id) => typeof id === "string")
+    );
+}
+
+function isTranscriptMessage(value: unknown): value is TranscriptMessage {
+  if (!isMessage(value)) return false;
+  const extra = value as Record<string, any>;
+  return typeof extra.isOwn === "boolean" &&
+    (extra.isSystem === undefined || typeof extra.isSystem === "boolean") &&
+    (extra.editedAt === undefined || Number.isFinite(extra.editedAt)) &&
+    (extra.deleted === undefined || typeof extra.deleted === "boolean") &&
+    (extra.reactions === undefined || isReactions(extra.reactions));
+}
+
+// Throws with a readable reason when the file is not a PeerBeam JSON export
+export function parseTranscript(raw: string): Transcript {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (data?.format !== TRANSCRIPT_FORMAT) {
+    throw new Error("File is not a PeerBeam transcript");
+  }
+  if (data.version > TRANSCRIPT_VERSION) {
+    throw new Error("Transcript was exported by a newer version of PeerBeam");
+  }
+  if (typeof data.roomId !== "string" || !Number.isFinite(data.exportedAt) || !Array.isArray(data.messages)) {
+    throw new Error("Transcript is missing room details");
+  }
+  const invalid = data.messages.findIndex((m: unknown) => !isTranscriptMessage(m));
+  if (invalid !== -1) {
+    throw new Error(`Transcript message ${invalid + 1} is malformed`);
+  }
+
+  return data as Transcript;
+}
@@ -0,0 +1,761 @@
+// SessionHost.ts - Owns the MeshPeerManager and chat state for as long as the extension runs
+//
+// Popups come and go; each one attaches over a runtime port, gets the current state
+// straight away and sends commands that are applied here.
+
+import {
+  ChatMessage,
+  addPendingUpdate,
+  applyUpdate,
+  mentionsName,
+  mergeHistory,
+  takePendingUpdates,
+  toMessage,
+} from "../lib/ChatState";
+import { clearRoom, loadMessages, saveMessages } from "../lib/ChatStore";
+import {
+  findContactsNamed,
+  loadContacts,
+  recordContact,
+  removeContact,
+  setContactVerified,
+} from "../lib/Contacts";
+import { Identity } from "../lib/Identity";
+import { MediaBridgeHost } from "../lib/MediaBridge";
+import { ShareSource, captureSource } from "../lib/ScreenCapture";
+import { Message, MeshPeerManager, MessageUpdate } from "../lib/MeshPeerManager";
+import {
+  INITIAL_SESSION_STATE,
+  PairingState,
+  SessionActivity,
+  SessionCommand,
+  SessionEvent,
+  SessionState,
+} from "../lib/Session";
+
+// File progress can fire for every chunk, so state pushes to popups are coalesced
+const BROADCAST_INTERVAL = 50;
+const ROOM_REFRESH_INTERVAL = 3000;
+const AUDIO_LEVEL_INTERVAL = 200;
+const CALL_VIEW_PATH = "/call.html";
+
+export class SessionHost {
+  private state: SessionState = INITIAL_SESSION_STATE;
+  private manager: MeshPeerManager | null = null;
+  private ports: Set<chrome.runtime.Port> = new Set();
+  private broadcastTimer?: ReturnType<typeof setTimeout>;
+  private roomRefreshTimer?: ReturnType<typeof setInterval>;
+  private serverWasConnected: boolean = false;
+  private pendingUpdates: MessageUpdate[] = [];
+  // Last version of each message written to IndexedDB
+  private persisted: Map<string, ChatMessage> = new Map();
+  // One per open call view
+  private bridges: Map<chrome.runtime.Port, MediaBridgeHost> = new Map();
+  // Peer ID -> media it sends in the call, ours included
+  private mediaStreams: Map<string, MediaStream> = new Map();
+  // Peer ID -> screen it presents, ours included
+  private screenStreams: Map<string, MediaStream> = new Map();
+  private audioLevelTimer?: ReturnType<typeof setInterval>;
+  private identity: Promise<Identity> | null = null;
+
+  attach(port: chrome.runtime.Port) {
+    this.ports.add(port);
+    port.onMessage.addListener((command: SessionCommand) => {
+      this.handleCommand(port, command).catch((e) => {
+        console.error(`Failed to handle ${command.type}:`, e);
+        this.post(port, { type: "error", message: (e as Error).message });
+      });
+    });
+    port.onDisconnect.addListener(() => {
+      this.ports.delete(port);
+      this.closeBridge(port);
+    });
+    this.post(port, { type: "state", state: this.state });
+  }
+
+  private post(port: chrome.runtime.Port, event: SessionEvent) {
+    try {
+      port.postMessage(event);
+    } catch (e) {
+      // The popup closed between our check and the send
+      this.ports.delete(port);
+    }
+  }
+
+  private setState(patch: Partial<SessionState>) {
+    this.state = { ...this.state, ...patch };
+    if (patch.messages) {
+      this.persistMessages();
+    }
+    if (this.broadcastTimer === undefined) {
+      this.broadcastTimer = setTimeout(() => {
+        this.broadcastTimer = undefined;
+        this.ports.forEach((port) => this.post(port, { type: "state", state: this.state }));
+      }, BROADCAST_INTERVAL);
+    }
+  }
+
+  private updateMessages(update: (messages: ChatMessage[]) => ChatMessage[]) {
+    this.setState({ messages: update(this.state.messages) });
+  }
+
+  // Messages are immutable, so anything that is not the object we last saved has changed
+  private persistMessages() {
+    const { roomId, messages } = this.state;
+    if (!roomId) return;
+    const changed = messages.filter((m) => !m.isSystem && this.persisted.get(m.id) !== m);
+    if (changed.length === 0) return;
+    changed.forEach((m) => this.persisted.set(m.id, m));
+    saveMessages(roomId, changed).catch((e) => console.error("Failed to save messages:", e));
+  }
+
+  private addSystemMessage(text: string) {
+    const msg: ChatMessage = {
+      id: Date.now().toString() + Math.random(),
+      sender: "system",
+      senderName: "System",
+      text,
+      timestamp: Date.now(),
+      isOwn: false,
+      isSystem: true,
+    };
+    this.updateMessages((prev) => [...prev, msg]);
+  }
+
+  private applyMessageUpdate(update: MessageUpdate) {
+    const next = applyUpdate(this.state.messages, update);
+    if (!next) {
+      this.pendingUpdates = addPendingUpdate(this.pendingUpdates, update);
+      return;
+    }
+    this.setState({ messages: next });
+  }
+
+  // The call window does not count: it shows no chat
+  private isPopupOpen(): boolean {
+    return Array.from(this.ports).some((port) => {
+      const url = port.sender?.url;
+      return !url || new URL(url).pathname !== CALL_VIEW_PATH;
+    });
+  }
+
+  // Nobody is looking at the chat, so let background.js notify and count unread messages
+  private reportActivity(kind: SessionActivity["kind"], title: string, text: string, mention: boolean = false) {
+    if (this.isPopupOpen() || !this.state.roomId) return;
+    const activity: SessionActivity = { kind, roomId: this.state.roomId, title, text, mention };
+    chrome.runtime.sendMessage({ type: "SESSION_ACTIVITY", activity }).catch((e) => {
+      console.warn("Failed to report activity:", e);
+    });
+  }
+
+  private reportMessage(message: Message) {
+    const text = message.file ? `Sent a file: ${message.file.name}` : message.text;
+    this.reportActivity(
+      "message",
+      `${message.senderName} in ${this.state.roomId}`,
+      text,
+      // A private message is always worth a notification
+      message.to !== undefined || mentionsName(message.text, this.state.userName)
+    );
+  }
+
+  // Edits or reactions may have overtaken the message itself
+  private withPendingUpdates(message: ChatMessage): ChatMessage {
+    const { message: merged, pending } = takePendingUpdates(message, this.pendingUpdates);
+    this.pendingUpdates = pending;
+    return merged;
+  }
+
+  private async handleCommand(port: chrome.runtime.Port, command: SessionCommand) {
+    if (command.type === "connect") {
+      await this.connect(command.userName, command.serverUrl, command.iceConfig);
+      if (!this.manager) {
+        this.post(port, { type: "error", message: "Could not connect to server. Make sure it's running." });
+      }
+      return;
+    }
+
+    if (command.type === "start-pairing") {
+      await this.startPairing(command.userName, command.role, command.iceConfig);
+      return;
+    }
+
+    // Call views keep their bridge across rooms
+    if (command.type === "media-bridge") {
+      const bridge = this.bridges.get(port) ?? this.openBridge(port);
+      if (command.signal) {
+        await bridge.handleSignal(command.signal);
+      }
+      return;
+    }
+
+    const manager = this.manager;
+    if (!manager) return;
+
+    switch (command.type) {
+      case "get-rooms": {
+        manager.getRooms();
+        break;
+      }
+
+      case "join-room": {
+        await this.joinRoom(manager, command.roomId, command.passphrase);
+        break;
+      }
+
+      case "leave-room": {
+        this.leaveRoom();
+        break;
+      }
+
+      case "apply-pairing-code": {
+        await this.applyPairingCode(manager, command.code.trim());
+        break;
+      }
+
+      case "cancel-pairing": {
+        manager.cancelInvite();
+        if (manager.getConnectedPeers().length > 0) {
+          this.setState({ screen: "chat" });
+        } else {
+          this.leaveRoom();
+        }
+        break;
+      }
+
+      case "send-message": {
+        const options = { replyTo: command.replyTo };
+        const message = command.to
+          ? manager.sendPrivateMessage(command.to, command.text, options)
+          : manager.sendMessage(command.text, options);
+        this.updateMessages((prev) => [...prev, { ...message, isOwn: true }]);
+        break;
+      }
+
+      case "edit-message": {
+        this.applyMessageUpdate(manager.editMessage(command.messageId, command.text));
+        break;
+      }
+
+      case "delete-message": {
+        const file = this.state.messages.find((m) => m.id === command.messageId)?.file;
+        if (file) {
+          manager.cancelFile(file.transferId);
+        }
+        this.applyMessageUpdate(manager.deleteMessage(command.messageId));
+        break;
+      }
+
+      case "react": {
+        this.applyMessageUpdate(manager.react(command.messageId, command.emoji, command.add));
+        break;
+      }
+
+      case "typing": {
+        manager.sendTyping(command.active);
+        break;
+      }
+
+      case "read": {
+        manager.sendReadReceipt(command.messageId);
+        break;
+      }
+
+      case "send-file": {
+        const blob = await (await fetch(command.url)).blob();
+        this.post(port, { type: "file-read", url: command.url });
+        const file = new File([blob], command.name, { type: command.mimeType });
+        const message = await manager.sendFile(file);
+        this.updateMessages((prev) => [
+          ...prev,
+          { ...message, isOwn: true, fileUrl: URL.createObjectURL(file) },
+        ]);
+        break;
+      }
+
+      case "cancel-file": {
+        manager.cancelFile(command.transferId);
+        break;
+      }
+
+      case "start-call": {
+        await this.startCall(manager, command.video);
+        break;
+      }
+
+      case "end-call": {
+        this.endCall(manager);
+        break;
+      }
+
+      case "set-microphone": {
+        if (!this.state.call) break;
+        manager.setMicrophoneEnabled(command.enabled);
+        this.setState({ call: { ...this.state.call, microphone: command.enabled } });
+        break;
+      }
+
+      case "start-share": {
+        await this.startShare(manager, command.source, command.streamId);
+        break;
+      }
+
+      case "stop-share": {
+        manager.stopScreenShare();
+        break;
+      }
+
+      case "set-camera": {
+        if (!this.state.call) break;
+        try {
+          await manager.setCameraEnabled(command.enabled);
+        } catch (e) {
+          throw new Error(`Could not turn on the camera: ${(e as Error).message}`);
+        }
+        this.setState({ call: { ...this.state.call, camera: command.enabled } });
+        this.syncMediaStreams();
+        break;
+      }
+
+      case "clear-history": {
+        manager.clearHistory();
+        await clearRoom(this.state.roomId);
+        this.revokeFileUrls();
+        this.persisted = new Map();
+        this.pendingUpdates = [];
+        this.updateMessages((prev) => prev.filter((m) => m.isSystem));
+        break;
+      }
+
+      case "verify-contact": {
+        await setContactVerified(command.peerId, command.verified);
+        if (command.verified) {
+          this.setState({ keyWarnings: this.state.keyWarnings.filter((id) => id !== command.peerId) });
+        }
+        await this.refreshContacts();
+        break;
+      }
+
+      case "remove-contact": {
+        await removeContact(command.peerId);
+        await this.refreshContacts();
+        break;
+      }
+
+      case "get-peer-stats": {
+        const stats = await manager.getPeerStats(command.peerId);
+        this.post(port, { type: "peer-stats", peerId: command.peerId, stats });
+        break;
+      }
+    }
+  }
+
+  private setPairing(patch: Partial<PairingState>) {
+    if (this.state.pairing) {
+      this.setState({ pairing: { ...this.state.pairing, ...patch } });
+    }
+  }
+
+  // Start a serverless room, or invite someone else into the one we are in
+  private async startPairing(userName: string, role: PairingState["role"], iceConfig: RTCConfiguration) {
+    let manager = this.manager;
+    if (manager && !this.state.pairing) return;
+
+    if (!manager) {
+      const identity = await this.loadIdentity();
+      if (this.manager) return;
+      manager = this.createManager(identity, userName, "", iceConfig);
+      manager.onPaired(() => this.setState({ screen: "chat" }));
+      this.setState({ userName, peerId: manager.getPeerId() });
+    }
+    this.setState({
+      screen: "pairing",
+      pairing: { role, stage: role === "creator" ? "generating" : "enter-code", localCode: "" }
+    });
+
+    if (role === "creator") {
+      const invite = await manager.createInvite();
+      if (invite) {
+        this.setPairing({ stage: "share-code", localCode: invite });
+      }
+    }
+  }
+
+  private async applyPairingCode(manager: MeshPeerManager, code: string) {
+    const role = this.state.pairing?.role;
+    if (!code || !role) return;
+
+    try {
+      if (role === "creator") {
+        await manager.acceptAnswer(code);
+        this.setPairing({ stage: "connecting" });
+      } else {
+        this.setPairing({ stage: "generating" });
+        const answer = await manager.acceptInvite(code);
+        this.setPairing({ stage: "share-code", localCode: answer });
+      }
+    } catch (e) {
+      console.error("Failed to apply pairing code:", e);
+      this.setPairing({ stage: role === "creator" ? "share-code" : "enter-code" });
+      throw e;
+    }
+  }
+
+  private async connect(userName: string, serverUrl: string, iceConfig: RTCConfiguration) {
+    if (this.manager) return;
+
+    this.setState({ isConnecting: true, userName });
+    let identity: Identity;
+    try {
+      identity = await this.loadIdentity();
+    } catch (e) {
+      this.setState({ isConnecting: false });
+      throw e;
+    }
+    if (this.manager) return;
+    const manager = this.createManager(identity, userName, serverUrl, iceConfig);
+
+    const connected = await manager.connect();
+
+    if (connected) {
+      this.setState({ isConnecting: false, screen: "lobby", peerId: manager.getPeerId() });
+      manager.getRooms();
+
+      // Refresh rooms periodically
+      this.roomRefreshTimer = setInterval(() => {
+        manager.getRooms();
+      }, ROOM_REFRESH_INTERVAL);
+    } else {
+      manager.disconnect();
+      this.manager = null;
+      this.setState({ isConnecting: false });
+    }
+  }
+
+  // Loaded once; every room uses the same key and so the same peer ID
+  private async loadIdentity(): Promise<Identity> {
+    if (!this.identity) {
+      this.identity = Identity.load();
+    }
+    try {
+      const identity = await this.identity;
+      if (!this.state.publicKey) {
+        this.setState({ publicKey: identity.publicKey, contacts: await loadContacts() });
+      }
+      return identity;
+    } catch (e) {
+      this.identity = null;
+      throw new Error(`Could not load your signing key: ${(e as Error).message}`);
+    }
+  }
+
+  private async refreshContacts() {
+    this.setState({ contacts: await loadContacts() });
+  }
+
+  // Remember everyone who proves a key, and warn when a key turns up under a known name
+  private async recordIdentity(peerId: string, peerName: string, publicKey: string | null) {
+    if (publicKey === null) {
+      await this.checkUnprovenPeer(peerId, peerName);
+      return;
+    }
+    const { conflicts } = await recordContact(peerId, peerName, publicKey);
+    if (conflicts.length > 0 && !this.state.keyWarnings.includes(peerId)) {
+      const verified = conflicts.some((c) => c.verified);
+      this.addSystemMessage(
+        `Warning: ${peerName} is using a different key from the ${peerName} you ${verified ? "verified" : "met"} before. ` +
+        "Compare safety numbers before trusting them."
+      );
+      this.setState({ keyWarnings: [...this.state.keyWarnings, peerId] });
+    }
+    await this.refreshContacts();
+  }
+
+  // Leaving the key out must not get around the warning above. Such a peer has a random ID,
+  // since the manager rejects key-derived IDs without a proof, so it is never taken for the contact.
+  private async checkUnprovenPeer(peerId: string, peerName: string) {
+    const claimed = await findContactsNamed(peerName);
+    if (claimed.length === 0 || this.state.keyWarnings.includes(peerId)) return;
+    this.addSystemMessage(
+      `Warning: ${peerName} did not prove a key, but you met ${claimed[0].name} before with one. ` +
+      "They may be someone else; compare safety numbers before trusting them."
+    );
+    this.setState({ keyWarnings: [...this.state.keyWarnings, peerId] });
+  }
+
+  // An empty server URL makes a serverless room
+  private createManager(
+    identity: Identity,
+    userName: string,
+    serverUrl: string,
+    iceConfig: RTCConfiguration
+  ): MeshPeerManager {
+    const manager = new MeshPeerManager(identity, userName, serverUrl, iceConfig);
+    this.manager = manager;
+
+    manager.onServerConnected((connected) => {
+      this.setState({ serverConnected: connected });
+      if (connected) {
+        if (this.serverWasConnected) {
+          this.addSystemMessage("Reconnected to server");
+        }
+        this.serverWasConnected = true;
+      } else if (this.serverWasConnected) {
+        this.addSystemMessage("Disconnected from server");
+      }
+    });
+
+    manager.onReconnecting((attempt, delay) => {
+      this.addSystemMessage(`Reconnecting in ${Math.round(delay / 1000)}s (attempt ${attempt})...`);
+    });
+
+    manager.onJoinRejected((room) => {
+      const message = `Could not join room ${room}: someone else there is using your peer ID`;
+      this.ports.forEach((port) => this.post(port, { type: "error", message }));
+    });
+
+    manager.onRoomsList((rooms) => {
+      this.setState({ rooms });
+    });
+
+    manager.onRoomJoined((room, existingPeers) => {
+      this.setState({ roomId: room, isEncrypted: manager.isEncrypted(), screen: "chat" });
+      this.addSystemMessage(
+        `Joined room ${room}${manager.isEncrypted() ? " (end-to-end encrypted)" : ""}`
+      );
+      if (existingPeers.length > 0) {
+        this.addSystemMessage(`${existingPeers.length} peer(s) already in room`);
+      }
+    });
+
+    manager.onPeerJoin((_, peerName) => {
+      this.addSystemMessage(`${peerName} joined`);
+      this.reportActivity("join", `Room ${this.state.roomId}`, `${peerName} joined`);
+    });
+
+    manager.onPeerLeave((_, peerName) => {
+      this.addSystemMessage(`${peerName} left`);
+      this.reportActivity("leave", `Room ${this.state.roomId}`, `${peerName} left`);
+    });
+
+    manager.onPeerRejected((_, peerName, reason) => {
+      this.addSystemMessage(`Rejected ${peerName}: ${reason}`);
+    });
+
+    manager.onSecurityEvent((event) => {
+      this.addSystemMessage(`Warning: ${event.detail}`);
+    });
+
+    manager.onPeerIdentity((peerId, peerName, publicKey) => {
+      this.recordIdentity(peerId, peerName, publicKey).catch((e) => {
+        console.error("Failed to record contact:", e);
+      });
+    });
+
+    manager.onTyping((peerId, _, active) => {
+      const prev = this.state.typingPeerIds;
+      this.setState({
+        typingPeerIds: active
+          ? prev.includes(peerId) ? prev : [...prev, peerId]
+          : prev.filter((id) => id !== peerId)
+      });
+    });
+
+    manager.onReadReceipt((peerId, _, messageId) => {
+      this.setState({ readReceipts: { ...this.state.readReceipts, [peerId]: messageId } });
+    });
+
+    manager.onConnectionChange((peers) => {
+      this.setState({ peers });
+    });
+
+    manager.onRemoteStream((peerId, stream) => {
+      const name = this.state.peers.find((p) => p.id === peerId)?.name ?? "A peer";
+      const wasInCall = this.mediaStreams.has(peerId);
+      if (stream) {
+        this.mediaStreams.set(peerId, stream);
+      } else {
+        this.mediaStreams.delete(peerId);
+      }
+      if (!wasInCall && stream) {
+        this.addSystemMessage(`${name} joined the call`);
+      } else if (wasInCall && !stream) {
+        this.addSystemMessage(`${name} left the call`);
+      }
+      this.syncMediaStreams();
+    });
+
+    manager.onScreenShare((peerId, stream) => {
+      const wasSharing = this.screenStreams.has(peerId);
+      if (stream) {
+        this.screenStreams.set(peerId, stream);
+      } else {
+        this.screenStreams.delete(peerId);
+      }
+      if (peerId !== manager.getPeerId() && wasSharing !== !!stream) {
+        const name = this.state.peers.find((p) => p.id === peerId)?.name ?? "A peer";
+        this.addSystemMessage(stream ? `${name} started presenting` : `${name} stopped presenting`);
+      }
+      this.syncMediaStreams();
+    });
+
+    manager.onTopologyChange((topology) => {
+      this.setState({ topology });
+      if (topology === "gossip") {
+        this.addSystemMessage("Room is large; messages now reach most peers through a few neighbors");
+      }
+    });
+
+    manager.onMessage((message) => {
+      const merged = this.withPendingUpdates({ ...message, isOwn: false });
+      this.updateMessages((prev) => [...prev, merged]);
+      this.reportMessage(message);
+    });
+
+    manager.onHistory((history) => {
+      const synced = history.map((message) =>
+        this.withPendingUpdates({ ...message, isOwn: message.sender === manager.getPeerId() })
+      );
+      this.updateMessages((prev) => mergeHistory(prev, synced));
+    });
+
+    manager.onMessageUpdate((update) => this.applyMessageUpdate(update));
+
+    manager.onFileProgress((progress) => {
+      this.updateMessages((prev) =>
+        prev.map((m) =>
+          m.id === progress.transferId
+            ? { ...m, transfers: { ...m.transfers, [progress.peerId]: progress } }
+            : m
+        )
+      );
+    });
+
+    manager.onFileReceived((file) => {
+      const url = URL.createObjectURL(file.blob);
+      this.updateMessages((prev) =>
+        prev.map((m) => (m.id === file.transferId ? { ...m, fileUrl: url } : m))
+      );
+    });
+
+    return manager;
+  }
+
+  private async joinRoom(manager: MeshPeerManager, room: string, passphrase: string) {
+    const id = room.trim().toUpperCase();
+    if (!id) return;
+
+    const saved = await loadMessages(id).catch((e) => {
+      console.error("Failed to load saved messages:", e);
+      return [] as ChatMessage[];
+    });
+    this.persisted = new Map(saved.map((m) => [m.id, m]));
+    this.setState({ messages: saved });
+    try {
+      await manager.joinRoom(id, passphrase, saved.filter((m) => !m.deleted).map(toMessage));
+    } catch (e) {
+      throw new Error(`Could not join room ${id}: ${(e as Error).message}`);
+    }
+  }
+
+  private revokeFileUrls() {
+    this.state.messages.forEach((m) => {
+      if (m.fileUrl) URL.revokeObjectURL(m.fileUrl);
+    });
+  }
+
+  // Calls
+
+  private async startCall(manager: MeshPeerManager, video: boolean) {
+    if (this.state.call) return;
+    let stream: MediaStream;
+    try {
+      stream = await manager.startCall(video);
+    } catch (e) {
+      throw new Error(`Could not use the microphone${video ? " or camera" : ""}: ${(e as Error).message}`);
+    }
+    this.mediaStreams.set(manager.getPeerId(), stream);
+    this.setState({ call: { microphone: true, camera: video } });
+    this.syncMediaStreams();
+  }
+
+  private endCall(manager: MeshPeerManager) {
+    if (!this.state.call) return;
+    manager.endCall();
+    this.mediaStreams.delete(manager.getPeerId());
+    this.setState({ call: null });
+    this.syncMediaStreams();
+  }
+
+  private async startShare(manager: MeshPeerManager, source: ShareSource, streamId: string) {
+    let stream: MediaStream;
+    try {
+      stream = await captureSource(source, streamId);
+    } catch (e) {
+      throw new Error(`Could not start sharing: ${(e as Error).message}`);
+    }
+    manager.startScreenShare(stream);
+  }
+
+  // Publish who sends which stream, and forward the streams to every call view
+  private syncMediaStreams() {
+    const ids = (streams: Map<string, MediaStream>) => {
+      const result: Record<string, string> = {};
+      streams.forEach((stream, peerId) => {
+        result[peerId] = stream.id;
+      });
+      return result;
+    };
+    this.setState({ mediaStreams: ids(this.mediaStreams), screenShares: ids(this.screenStreams) });
+    const streams = [...this.mediaStreams.values(), ...this.screenStreams.values()];
+    this.bridges.forEach((bridge) => bridge.setStreams(streams));
+  }
+
+  private openBridge(port: chrome.runtime.Port): MediaBridgeHost {
+    const bridge = new MediaBridgeHost((signal) => this.post(port, { type: "media-bridge", signal }));
+    this.bridges.set(port, bridge);
+    bridge.setStreams([...this.mediaStreams.values(), ...this.screenStreams.values()]);
+
+    if (this.audioLevelTimer === undefined) {
+      this.audioLevelTimer = setInterval(() => this.sendAudioLevels(), AUDIO_LEVEL_INTERVAL);
+    }
+    return bridge;
+  }
+
+  // Closing the last call view hangs up; nobody could hear the call any more
+  private closeBridge(port: chrome.runtime.Port) {
+    const bridge = this.bridges.get(port);
+    if (!bridge) return;
+    bridge.close();
+    this.bridges.delete(port);
+    if (this.bridges.size > 0) return;
+
+    clearInterval(this.audioLevelTimer);
+    this.audioLevelTimer = undefined;
+    if (this.manager) {
+      this.endCall(this.manager);
+    }
+  }
+
+  private async sendAudioLevels() {
+    if (!this.manager || this.mediaStreams.size === 0) return;
+    const levels = await this.manager.getAudioLevels();
+    this.bridges.forEach((_, port) => this.post(port, { type: "audio-levels", levels }));
+  }
+
+  private leaveRoom() {
+    this.revokeFileUrls();
+    this.mediaStreams.clear();
+    this.screenStreams.clear();
+    this.bridges.forEach((bridge) => bridge.setStreams([]));
+    this.manager?.disconnect();
+    this.manager = null;
+    clearInterval(this.roomRefreshTimer);
+    this.roomRefreshTimer = undefined;
+    this.serverWasConnected = false;
+    this.pendingUpdates = [];
+    this.persisted = new Map();
+    const { userName, publicKey, contacts } = this.state;
+    this.setState({ ...INITIAL_SESSION_STATE, userName, publicKey, contacts });
+  }
+}
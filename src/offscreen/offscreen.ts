@@ -0,0 +1,12 @@
+// offscreen.ts - Long-lived document created by background.js to keep peer connections open
+
+import { SESSION_PORT } from "../lib/Session";
+import { SessionHost } from "./SessionHost";
+
+const host = new SessionHost();
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === SESSION_PORT) {
+    host.attach(port);
+  }
+});
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { Contact } from "../lib/Contacts";
+import { safetyNumber } from "../lib/Identity";
+
+interface Props {
+  contacts: Contact[];
+  ownPublicKey: string;
+  // Peer IDs in the current room
+  presentIds: string[];
+  keyWarnings: string[];
+  // Contact to open straight away, e.g. from a warning in the peer list
+  initialPeerId: string | null;
+  onVerify: (peerId: string, verified: boolean) => void;
+  onRemove: (peerId: string) => void;
+  onClose: () => void;
+}
+
+function SafetyNumber({ ownPublicKey, publicKey }: { ownPublicKey: string; publicKey: string }) {
+  const [number, setNumber] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    safetyNumber(ownPublicKey, publicKey)
+      .then((n) => {
+        if (!cancelled) setNumber(n);
+      })
+      .catch((e) => console.error("Failed to compute safety number:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [ownPublicKey, publicKey]);
+
+  return (
+    <p className="font-mono text-sm text-white tracking-wide leading-relaxed">
+      {number ?? "Computing..."}
+    </p>
+  );
+}
+
+export function ContactsPanel({
+  contacts,
+  ownPublicKey,
+  presentIds,
+  keyWarnings,
+  initialPeerId,
+  onVerify,
+  onRemove,
+  onClose,
+}: Props) {
+  const [expandedId, setExpandedId] = useState<string | null>(initialPeerId);
+
+  useEffect(() => {
+    setExpandedId(initialPeerId);
+  }, [initialPeerId]);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex justify-between items-center p-2 border-b border-slate-700">
+        <span className="text-slate-300 text-sm font-medium">Contacts</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-xs">
+          Close
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        <p className="text-slate-500 text-xs px-1 pb-1">
+          Everyone who proved their key to you is kept here. To verify someone, compare your
+          safety number with theirs in person or over another channel.
+        </p>
+        {contacts.length === 0 && (
+          <p className="text-center text-slate-500 text-sm mt-6">No contacts yet</p>
+        )}
+        {contacts.map((contact) => {
+          const expanded = expandedId === contact.peerId;
+          const warning = keyWarnings.includes(contact.peerId);
+          return (
+            <div key={contact.peerId} className="rounded bg-slate-800">
+              <button
+                onClick={() => setExpandedId(expanded ? null : contact.peerId)}
+                className="w-full text-left p-2 flex items-center justify-between gap-2 hover:bg-slate-700 rounded transition-colors"
+              >
+                <span className="text-sm text-white truncate">
+                  {contact.name}
+                  {presentIds.includes(contact.peerId) && (
+                    <span className="text-xs text-green-400"> · in this room</span>
+                  )}
+                </span>
+                <span
+                  className={`text-xs whitespace-nowrap ${
+                    warning ? "text-red-400" : contact.verified ? "text-green-400" : "text-slate-500"
+                  }`}
+                >
+                  {warning ? "⚠ new key" : contact.verified ? "✓ verified" : "unverified"}
+                </span>
+              </button>
+
+              {expanded && (
+                <div className="px-2 pb-2 space-y-2">
+                  {warning && (
+                    <p className="text-xs text-red-300">
+                      Someone you met before used this name with a different key. This may be a new
+                      device, or someone else. Compare safety numbers before trusting them.
+                    </p>
+                  )}
+                  <div>
+                    <p className="text-xs text-slate-400 mb-0.5">Safety number</p>
+                    <SafetyNumber ownPublicKey={ownPublicKey} publicKey={contact.publicKey} />
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    First seen {new Date(contact.firstSeen).toLocaleDateString()} · last seen{" "}
+                    {new Date(contact.lastSeen).toLocaleString()}
+                  </p>
+                  <div className="flex gap-3 text-xs">
+                    <button
+                      onClick={() => onVerify(contact.peerId, !contact.verified)}
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      {contact.verified ? "Mark as unverified" : "Mark as verified"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Forget ${contact.name}? You will not be warned if their key changes.`)) {
+                          onRemove(contact.peerId);
+                        }
+                      }}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      Forget
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { CandidateInfo, PeerStats, diagnose, formatDiagnostics } from "../lib/PeerStats";
+import { SessionClient } from "./SessionClient";
+
+interface Props {
+  peerId: string;
+  peerName: string;
+  client: SessionClient | null;
+  onClose: () => void;
+}
+
+const STATS_INTERVAL = 1000;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatCandidate(candidate: CandidateInfo | null): string {
+  if (!candidate) return "—";
+  return `${candidate.type} · ${candidate.relayProtocol ?? candidate.protocol}`;
+}
+
+export function DiagnosticsPanel({ peerId, peerName, client, onClose }: Props) {
+  const [stats, setStats] = useState<PeerStats | null | undefined>(undefined);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!client) return;
+    setStats(undefined);
+    client.onPeerStats((id, next) => {
+      if (id === peerId) setStats(next);
+    });
+    const poll = () => client.send({ type: "get-peer-stats", peerId });
+    poll();
+    const timer = setInterval(poll, STATS_INTERVAL);
+    return () => clearInterval(timer);
+  }, [client, peerId]);
+
+  const copy = async () => {
+    if (!stats) return;
+    try {
+      await navigator.clipboard.writeText(formatDiagnostics([stats]));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      alert(`Could not copy diagnostics: ${(e as Error).message}`);
+    }
+  };
+
+  const rows: Array<[string, string]> = stats
+    ? [
+        ["Connection", stats.connectionState],
+        ["ICE", `${stats.iceConnectionState} (gathering ${stats.iceGatheringState})`],
+        ["DTLS", stats.dtlsState ?? "—"],
+        ["Local", formatCandidate(stats.localCandidate)],
+        ["Remote", formatCandidate(stats.remoteCandidate)],
+        ["RTT", stats.roundTripTime === null ? "—" : `${stats.roundTripTime} ms`],
+        ["Sent", formatBytes(stats.bytesSent)],
+        ["Received", formatBytes(stats.bytesReceived)],
+        ["Channel", `${stats.channelState ?? "none"}, ${formatBytes(stats.bufferedAmount)} buffered`],
+        ["Protocol", stats.protocolVersion === null ? "not negotiated" : `v${stats.protocolVersion}`],
+        ["ICE restarts", String(stats.iceRestarts)],
+      ]
+    : [];
+
+  return (
+    <div className="mt-2 rounded bg-slate-900 border border-slate-700 p-2 text-xs">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-slate-300 font-medium">Diagnostics · {peerName}</span>
+        <div className="flex gap-3">
+          <button
+            onClick={copy}
+            disabled={!stats}
+            className="text-blue-400 hover:text-blue-300 disabled:text-slate-600 transition-colors"
+          >
+            {copied ? "Copied" : "Copy diagnostics"}
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {stats === undefined ? (
+        <p className="text-slate-500">Loading...</p>
+      ) : stats === null ? (
+        <p className="text-slate-500">No direct link to {peerName}; nothing to measure.</p>
+      ) : (
+        <>
+          <p className="text-slate-400 mb-1">{diagnose(stats)}</p>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            {rows.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-slate-500">{label}</dt>
+                <dd className="text-slate-200 font-mono truncate">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <details className="mt-1">
+            <summary className="text-slate-400 cursor-pointer">
+              Timeline ({stats.timeline.length})
+            </summary>
+            <ol className="mt-1 max-h-32 overflow-y-auto font-mono text-slate-400">
+              {stats.timeline.map((t, i) => (
+                <li key={i}>
+                  {new Date(t.timestamp).toLocaleTimeString()} {t.kind} → {t.state}
+                </li>
+              ))}
+            </ol>
+          </details>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import {
+  DEFAULT_ICE_SETTINGS,
+  IceServerEntry,
+  IceSettings,
+  saveIceSettings,
+  validateIceSettings,
+} from "../lib/IceConfig";
+
+interface Props {
+  settings: IceSettings;
+  onSaved: (settings: IceSettings) => void;
+}
+
+export function IceSettingsPanel({ settings, onSaved }: Props) {
+  const [servers, setServers] = useState<IceServerEntry[]>(settings.servers);
+  const [relayOnly, setRelayOnly] = useState(settings.relayOnly);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const updateServer = (index: number, patch: Partial<IceServerEntry>) => {
+    setSaved(false);
+    setServers((prev) =>
+      prev.map((server, i) => (i === index ? { ...server, ...patch } : server))
+    );
+  };
+
+  const removeServer = (index: number) => {
+    setSaved(false);
+    setServers((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addServer = () => {
+    setSaved(false);
+    setServers((prev) => [...prev, { urls: "turn:" }]);
+  };
+
+  const save = async () => {
+    const next: IceSettings = { servers, relayOnly };
+    const problem = validateIceSettings(next);
+    setError(problem);
+    if (problem) return;
+
+    await saveIceSettings(next);
+    setSaved(true);
+    onSaved(next);
+  };
+
+  const reset = () => {
+    setServers(DEFAULT_ICE_SETTINGS.servers);
+    setRelayOnly(DEFAULT_ICE_SETTINGS.relayOnly);
+    setError(null);
+    setSaved(false);
+  };
+
+  const isTurn = (url: string) => /^turns?:/i.test(url.trim());
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-slate-800 border border-slate-700">
+      <p className="text-slate-300 text-sm font-medium">ICE servers</p>
+
+      <div className="space-y-2 max-h-40 overflow-y-auto">
+        {servers.map((server, index) => (
+          <div key={index} className="space-y-1">
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={server.urls}
+                onChange={(e) => updateServer(index, { urls: e.target.value })}
+                placeholder="stun:host:port or turn:host:port"
+                className="flex-1 min-w-0 p-1 rounded bg-slate-700 text-white placeholder-slate-400 border border-slate-600 focus:border-blue-500 focus:outline-none text-xs"
+              />
+              <button
+                onClick={() => removeServer(index)}
+                className="text-slate-400 hover:text-red-400 text-xs px-1"
+                title="Remove server"
+              >
+                ✕
+              </button>
+            </div>
+            {isTurn(server.urls) && (
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={server.username || ""}
+                  onChange={(e) => updateServer(index, { username: e.target.value })}
+                  placeholder="Username"
+                  className="flex-1 min-w-0 p-1 rounded bg-slate-700 text-white placeholder-slate-400 border border-slate-600 focus:border-blue-500 focus:outline-none text-xs"
+                />
+                <input
+                  type="password"
+                  value={server.credential || ""}
+                  onChange={(e) => updateServer(index, { credential: e.target.value })}
+                  placeholder="Credential"
+                  className="flex-1 min-w-0 p-1 rounded bg-slate-700 text-white placeholder-slate-400 border border-slate-600 focus:border-blue-500 focus:outline-none text-xs"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button onClick={addServer} className="text-blue-400 hover:text-blue-300 text-xs">
+        + Add server
+      </button>
+
+      <label className="flex items-center gap-2 text-slate-300 text-xs">
+        <input
+          type="checkbox"
+          checked={relayOnly}
+          onChange={(e) => {
+            setSaved(false);
+            setRelayOnly(e.target.checked);
+          }}
+        />
+        Relay-only (hide my IP address, requires TURN)
+      </label>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-xs font-medium transition-colors"
+        >
+          Save
+        </button>
+        <button onClick={reset} className="text-slate-400 hover:text-white text-xs">
+          Reset to defaults
+        </button>
+        {saved && <span className="text-green-400 text-xs">Saved</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { ChatMessage, messagePreview } from "../lib/ChatState";
+import { formatFileSize } from "../lib/FileTransfer";
+import { PeerInfo } from "../lib/MeshPeerManager";
+
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+function FileAttachment({
+  msg,
+  onCancel,
+}: {
+  msg: ChatMessage;
+  onCancel: (transferId: string) => void;
+}) {
+  const file = msg.file!;
+  const transfers = Object.values(msg.transfers || {});
+  const inProgress = transfers.some((t) => t.state === "transferring");
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-2">
+        <span className="truncate font-medium">{file.name}</span>
+        <span className="text-xs opacity-60 whitespace-nowrap">
+          {formatFileSize(file.size)}
+        </span>
+      </div>
+
+      {transfers.map((t) => (
+        <div key={t.peerId} className="mt-1">
+          <div className="flex justify-between text-xs opacity-80">
+            <span>{msg.isOwn ? t.peerName : t.state}</span>
+            <span>
+              {t.state === "transferring"
+                ? `${Math.floor((t.bytesTransferred / Math.max(t.totalBytes, 1)) * 100)}%`
+                : t.error || t.state}
+            </span>
+          </div>
+          {t.state === "transferring" && (
+            <div className="h-1 bg-slate-900/40 rounded">
+              <div
+                className="h-1 bg-green-400 rounded"
+                style={{
+                  width: `${(t.bytesTransferred / Math.max(t.totalBytes, 1)) * 100}%`,
+                }}
+              ></div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-3 mt-1 text-xs">
+        {msg.fileUrl && (
+          <a
+            href={msg.fileUrl}
+            download={file.name}
+            className="underline hover:opacity-80"
+          >
+            Download
+          </a>
+        )}
+        {inProgress && (
+          <button
+            onClick={() => onCancel(file.transferId)}
+            className="underline hover:opacity-80"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface Props {
+  msg: ChatMessage;
+  // The message this one replies to, if we have it
+  parent?: ChatMessage;
+  replyCount: number;
+  ownPeerId: string;
+  // Saved or imported history: nothing can be sent from here
+  readOnly?: boolean;
+  seenBy: PeerInfo[];
+  seenAvatars: PeerInfo[];
+  onCancelFile: (transferId: string) => void;
+  onEdit: (msg: ChatMessage) => void;
+  onDelete: (messageId: string) => void;
+  onReact: (msg: ChatMessage, emoji: string) => void;
+  onReply: (msg: ChatMessage) => void;
+  onOpenThread: (messageId: string) => void;
+  // Private messages: who the message was sent to
+  recipientName?: string;
+}
+
+export function MessageBubble({
+  msg,
+  parent,
+  replyCount,
+  ownPeerId,
+  readOnly,
+  seenBy,
+  seenAvatars,
+  onCancelFile,
+  onEdit,
+  onDelete,
+  onReact,
+  onReply,
+  onOpenThread,
+  recipientName,
+}: Props) {
+  const [showPicker, setShowPicker] = useState(false);
+  const reactions = Object.entries(msg.reactions || {});
+  // Messages restored from an earlier session were sent under another peer ID
+  const canModify = msg.isOwn && msg.sender === ownPeerId;
+
+  return (
+    <div className={`group max-w-[80%] flex flex-col ${msg.isOwn ? "items-end" : "items-start"}`}>
+      <div
+        className={`rounded-lg p-2 ${
+          msg.isOwn
+            ? "bg-blue-600 text-white"
+            : "bg-slate-700 text-white"
+        }${msg.to ? " ring-2 ring-amber-400" : ""}`}
+      >
+        {msg.to ? (
+          <p className="text-xs text-amber-300 mb-1">
+            {msg.isOwn ? `Private to ${recipientName}` : `${msg.senderName} · private to you`}
+          </p>
+        ) : !msg.isOwn && (
+          <p className="text-xs text-slate-400 mb-1">
+            {msg.senderName}
+          </p>
+        )}
+        {msg.replyTo && (
+          <button
+            onClick={() => onOpenThread(msg.id)}
+            disabled={readOnly}
+            className="block w-full text-left mb-1 pl-2 border-l-2 border-slate-400/60 text-xs opacity-80 hover:opacity-100"
+            title="View thread"
+          >
+            {parent ? (
+              <>
+                <span className="font-medium">{parent.isOwn ? "You" : parent.senderName}</span>
+                <span className="block truncate">{messagePreview(parent)}</span>
+              </>
+            ) : (
+              <span className="italic">Original message unavailable</span>
+            )}
+          </button>
+        )}
+        {msg.deleted ? (
+          <p className="text-sm italic opacity-60">This message was deleted</p>
+        ) : msg.file ? (
+          <FileAttachment msg={msg} onCancel={onCancelFile} />
+        ) : (
+          <p className="text-sm break-words">{msg.text}</p>
+        )}
+        <p className="text-xs opacity-60 mt-1 flex items-center gap-1">
+          {new Date(msg.timestamp).toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+          {msg.editedAt && !msg.deleted && <span>(edited)</span>}
+          {msg.isOwn && (
+            <span
+              title={seenBy.map((p) => `Seen by ${p.name}`).join("\n") || "Sent"}
+            >
+              {seenBy.length > 0 ? "✓✓" : "✓"}
+            </span>
+          )}
+        </p>
+        {seenAvatars.length > 0 && (
+          <div className="flex justify-end gap-0.5 mt-1">
+            {seenAvatars.map((p) => (
+              <span
+                key={p.id}
+                title={`Seen by ${p.name}`}
+                className="w-4 h-4 rounded-full bg-slate-900/50 text-[10px] leading-4 text-center"
+              >
+                {p.name.charAt(0).toUpperCase()}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {reactions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {reactions.map(([emoji, peerIds]) => (
+            <button
+              key={emoji}
+              onClick={() => onReact(msg, emoji)}
+              disabled={readOnly}
+              className={`text-xs px-1.5 rounded-full border ${
+                peerIds.includes(ownPeerId)
+                  ? "border-blue-400 bg-blue-900/50"
+                  : "border-slate-600 bg-slate-800"
+              }`}
+            >
+              {emoji} {peerIds.length}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {replyCount > 0 && (
+        <button
+          onClick={() => onOpenThread(msg.id)}
+          className="mt-0.5 text-xs text-blue-400 hover:text-blue-300"
+        >
+          {replyCount} {replyCount === 1 ? "reply" : "replies"}
+        </button>
+      )}
+
+      {!msg.deleted && !readOnly && (
+        <div className="hidden group-hover:flex gap-2 mt-0.5 text-xs text-slate-500">
+          <button onClick={() => onReply(msg)} className="hover:text-white">
+            Reply
+          </button>
+          <button onClick={() => setShowPicker(!showPicker)} className="hover:text-white">
+            React
+          </button>
+          {canModify && !msg.file && (
+            <button onClick={() => onEdit(msg)} className="hover:text-white">
+              Edit
+            </button>
+          )}
+          {canModify && (
+            <button onClick={() => onDelete(msg.id)} className="hover:text-red-400">
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      {showPicker && !msg.deleted && (
+        <div className="flex gap-1 mt-1 p-1 rounded bg-slate-800 border border-slate-700">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                onReact(msg, emoji);
+                setShowPicker(false);
+              }}
+              className="hover:scale-125 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useRef, useState } from "react";
+import { PairingState } from "../lib/Session";
+import { QrCode, readQrImage } from "./QrCode";
+
+interface Props {
+  pairing: PairingState;
+  onApplyCode: (code: string) => void;
+  onCancel: () => void;
+}
+
+export function PairingScreen({ pairing, onApplyCode, onCancel }: Props) {
+  const [code, setCode] = useState("");
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const isCreator = pairing.role === "creator";
+  // The creator waits for an answer after sharing; the joiner pastes the invite first
+  const needsCode = isCreator ? pairing.stage === "share-code" : pairing.stage === "enter-code";
+  const showsCode = pairing.stage === "share-code" && !!pairing.localCode;
+
+  const copyCode = async () => {
+    await navigator.clipboard.writeText(pairing.localCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const scanImage = async (file: File) => {
+    setScanError(null);
+    try {
+      const text = await readQrImage(file);
+      setCode(text);
+      onApplyCode(text);
+    } catch (e) {
+      setScanError((e as Error).message);
+    }
+  };
+
+  const submit = () => {
+    if (!code.trim()) return;
+    onApplyCode(code.trim());
+  };
+
+  return (
+    <div className="w-80 p-4 bg-gradient-to-br from-slate-900 to-slate-800 min-h-[450px]">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-xl font-bold text-white">No server</h1>
+          <p className="text-slate-400 text-xs">
+            {isCreator ? "Create an invite" : "Join with an invite code"}
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-red-400 hover:text-red-300 text-sm font-medium transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {(pairing.stage === "generating" || pairing.stage === "connecting") && (
+          <div className="flex items-center justify-center gap-2 text-slate-300 text-sm py-8">
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            {pairing.stage === "generating" ? "Generating code..." : "Connecting..."}
+          </div>
+        )}
+
+        {showsCode && (
+          <div className="space-y-2">
+            <p className="text-slate-300 text-sm">
+              {isCreator
+                ? "1. Show this invite to the other person"
+                : "2. Send this answer back to the person who invited you"}
+            </p>
+            <QrCode text={pairing.localCode} />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={pairing.localCode}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 p-2 rounded bg-slate-700 text-slate-300 border border-slate-600 text-xs font-mono"
+              />
+              <button
+                onClick={copyCode}
+                className="bg-slate-700 hover:bg-slate-600 text-white px-3 rounded text-xs transition-colors"
+              >
+                {copied ? "Copied" : "Copy"}
+              </button>
+            </div>
+            {!isCreator && (
+              <p className="text-slate-500 text-xs">
+                The chat opens once they apply your answer.
+              </p>
+            )}
+          </div>
+        )}
+
+        {needsCode && (
+          <div className="space-y-2">
+            <p className="text-slate-300 text-sm">
+              {isCreator
+                ? "2. Paste or scan the answer they send back"
+                : "1. Paste or scan the invite you received"}
+            </p>
+            <textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={isCreator ? "Answer code" : "Invite code"}
+              rows={3}
+              className="w-full p-2 rounded bg-slate-700 text-white placeholder-slate-400 border border-slate-600 focus:border-blue-500 focus:outline-none text-xs font-mono resize-none"
+            />
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) scanImage(file);
+              }}
+              className="hidden"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => imageInputRef.current?.click()}
+                className="flex-1 bg-slate-700 hover:bg-slate-600 text-white p-2 rounded text-sm transition-colors"
+              >
+                Scan QR image
+              </button>
+              <button
+                onClick={submit}
+                disabled={!code.trim()}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white p-2 rounded text-sm font-medium transition-colors"
+              >
+                {isCreator ? "Connect" : "Generate answer"}
+              </button>
+            </div>
+            {scanError && <p className="text-red-400 text-xs">{scanError}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
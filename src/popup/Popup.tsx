@@ -1,51 +1,133 @@
 import { useState, useEffect, useRef } from "react";
 import ReactDOM from "react-dom/client";
 import "../styles/index.css";
+import { PeerInfo } from "../lib/MeshPeerManager";
 import {
-  MeshPeerManager,
-  Message,
-  PeerInfo,
-  RoomInfo,
-} from "../lib/MeshPeerManager";
-
-type Screen = "connect" | "lobby" | "chat";
+  ChatMessage,
+  getThread,
+  messagePreview,
+  threadRoots,
+} from "../lib/ChatState";
+import { SearchResult, loadMessages } from "../lib/ChatStore";
+import { MAX_FILE_SIZE, formatFileSize } from "../lib/FileTransfer";
+import {
+  DEFAULT_ICE_SETTINGS,
+  IceSettings,
+  loadIceSettings,
+  toRTCConfiguration,
+} from "../lib/IceConfig";
+import {
+  DEFAULT_ROOM_NOTIFICATIONS,
+  RoomNotificationSettings,
+  loadRoomNotifications,
+  saveRoomNotifications,
+} from "../lib/NotificationSettings";
+import { ShareSource } from "../lib/ScreenCapture";
+import { INITIAL_SESSION_STATE, PairingState, SessionState } from "../lib/Session";
+import { ContactsPanel } from "./ContactsPanel";
+import { DiagnosticsPanel } from "./DiagnosticsPanel";
+import { IceSettingsPanel } from "./IceSettingsPanel";
+import { MessageBubble } from "./MessageBubble";
+import { PairingScreen } from "./PairingScreen";
+import { SearchPanel } from "./SearchPanel";
+import { ShareMenu } from "./ShareMenu";
+import { RoomMenu } from "./RoomMenu";
+import { SessionClient } from "./SessionClient";
+import {
+  TranscriptFormat,
+  createTranscript,
+  parseTranscript,
+  transcriptFile,
+} from "../lib/Transcript";
 
-interface ChatMessage extends Message {
-  isOwn: boolean;
-  isSystem?: boolean;
+// Read-only message list: another room's saved history or an imported transcript
+interface SavedRoomView {
+  title: string;
+  messages: ChatMessage[];
 }
 
+// How long a message found by search stays highlighted
+const HIGHLIGHT_DURATION = 2000;
+
 const DEFAULT_SERVER =
   import.meta.env.VITE_SERVER_URL || "wss://peerbeam-vd0o.onrender.com";
 
 function Popup() {
-  const [screen, setScreen] = useState<Screen>("connect");
+  // Everything about the connection lives in the offscreen document; null until attached
+  const [session, setSession] = useState<SessionState | null>(null);
   const [userName, setUserName] = useState("");
-  const [isConnecting, setIsConnecting] = useState(false);
+  const [iceSettings, setIceSettings] = useState<IceSettings>(DEFAULT_ICE_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
 
   // Lobby state
-  const [rooms, setRooms] = useState<RoomInfo[]>([]);
   const [newRoomId, setNewRoomId] = useState("");
+  const [passphrase, setPassphrase] = useState("");
 
   // Chat state
-  const [roomId, setRoomId] = useState("");
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState("");
-  const [peers, setPeers] = useState<PeerInfo[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  // Set while the contacts panel is open; a peer ID to open that contact's entry
+  const [contactsFocus, setContactsFocus] = useState<string | null | undefined>(undefined);
+  const [diagnosticsPeerId, setDiagnosticsPeerId] = useState<string | null>(null);
+  // Peer ID the next messages are sent to privately
+  const [privateTo, setPrivateTo] = useState<string | null>(null);
+  const [savedRoom, setSavedRoom] = useState<SavedRoomView | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<RoomNotificationSettings>(
+    DEFAULT_ROOM_NOTIFICATIONS
+  );
 
-  const peerManagerRef = useRef<MeshPeerManager | null>(null);
+  const clientRef = useRef<SessionClient | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const roomRefreshInterval = useRef<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const messageInputRef = useRef<HTMLInputElement>(null);
+
+  const {
+    screen,
+    isConnecting,
+    peerId,
+    rooms,
+    roomId,
+    isEncrypted,
+    messages,
+    peers,
+    topology,
+    serverConnected,
+    typingPeerIds,
+    readReceipts,
+    pairing,
+    call,
+    mediaStreams,
+    screenShares,
+    publicKey,
+    contacts,
+    keyWarnings,
+  } = session ?? INITIAL_SESSION_STATE;
 
   useEffect(() => {
     chrome.storage.local.get(["userName"], (result) => {
       if (result.userName) setUserName(result.userName);
     });
+    loadIceSettings().then(setIceSettings);
+    // The chat is on screen, so everything counted while we were closed is now read
+    chrome.runtime.sendMessage({ type: "CLEAR_UNREAD" });
+
+    const client = new SessionClient();
+    clientRef.current = client;
+    client.onState(setSession);
+    client.onError((message) => alert(message));
+    client.onFileRead((url) => URL.revokeObjectURL(url));
+    client.attach().catch((e) => {
+      console.error("Failed to attach to session:", e);
+      alert(e.message);
+    });
 
     return () => {
-      if (roomRefreshInterval.current) {
-        clearInterval(roomRefreshInterval.current);
-      }
+      client.close();
+      clientRef.current = null;
     };
   }, []);
 
@@ -53,86 +135,77 @@ function Popup() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  const addSystemMessage = (text: string) => {
-    const msg: ChatMessage = {
-      id: Date.now().toString() + Math.random(),
-      sender: "system",
-      senderName: "System",
-      text,
-      timestamp: Date.now(),
-      isOwn: false,
-      isSystem: true,
-    };
-    setMessages((prev) => [...prev, msg]);
-  };
+  // Local view state belongs to the room it was opened in
+  useEffect(() => {
+    setEditingId(null);
+    setReplyingTo(null);
+    setThreadRootId(null);
+    setPrivateTo(null);
+    setShowSearch(false);
+    setContactsFocus(undefined);
+    setSavedRoom(null);
+    if (roomId) {
+      loadRoomNotifications(roomId).then(setNotifications);
+    }
+  }, [roomId]);
 
-  const connectToServer = async () => {
+  useEffect(() => {
+    if (!highlightId) return;
+    document.getElementById(`message-${highlightId}`)?.scrollIntoView({ block: "center" });
+    const timer = setTimeout(() => setHighlightId(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [highlightId, savedRoom]);
+
+  // Acknowledge the newest message from someone else while the chat is on screen
+  useEffect(() => {
+    if (screen !== "chat" || document.visibilityState !== "visible") return;
+    const lastIncoming = [...messages].reverse().find((m) => !m.isOwn && !m.isSystem);
+    if (lastIncoming) {
+      clientRef.current?.send({ type: "read", messageId: lastIncoming.id });
+    }
+  }, [messages, screen]);
+
+  const connectToServer = () => {
     if (!userName.trim()) {
       alert("Please enter your name");
       return;
     }
 
-    setIsConnecting(true);
     chrome.storage.local.set({ userName: userName.trim() });
-
-    const manager = new MeshPeerManager(userName.trim(), DEFAULT_SERVER);
-    peerManagerRef.current = manager;
-
-    manager.onServerConnected((connected) => {
-      if (!connected && screen !== "connect") {
-        addSystemMessage("Disconnected from server");
-      }
-    });
-
-    manager.onRoomsList((roomList) => {
-      setRooms(roomList);
-    });
-
-    manager.onRoomJoined((room, existingPeers) => {
-      setRoomId(room);
-      setScreen("chat");
-      addSystemMessage(`Joined room ${room}`);
-      if (existingPeers.length > 0) {
-        addSystemMessage(`${existingPeers.length} peer(s) already in room`);
-      }
-    });
-
-    manager.onPeerJoin((_, peerName) => {
-      addSystemMessage(`${peerName} joined`);
-    });
-
-    manager.onPeerLeave((_, peerName) => {
-      addSystemMessage(`${peerName} left`);
+    clientRef.current?.send({
+      type: "connect",
+      userName: userName.trim(),
+      serverUrl: DEFAULT_SERVER,
+      iceConfig: toRTCConfiguration(iceSettings),
     });
+  };
 
-    manager.onConnectionChange((peerList) => {
-      setPeers(peerList);
-    });
+  const startPairing = (role: PairingState["role"]) => {
+    if (!userName.trim()) {
+      alert("Please enter your name");
+      return;
+    }
 
-    manager.onMessage((message) => {
-      setMessages((prev) => [...prev, { ...message, isOwn: false }]);
+    chrome.storage.local.set({ userName: userName.trim() });
+    clientRef.current?.send({
+      type: "start-pairing",
+      userName: userName.trim(),
+      role,
+      iceConfig: toRTCConfiguration(iceSettings),
     });
+  };
 
-    const connected = await manager.connect();
-    setIsConnecting(false);
-
-    if (connected) {
-      setScreen("lobby");
-      manager.getRooms();
+  const applyPairingCode = (code: string) => {
+    clientRef.current?.send({ type: "apply-pairing-code", code });
+  };
 
-      // Refresh rooms periodically
-      roomRefreshInterval.current = window.setInterval(() => {
-        manager.getRooms();
-      }, 3000);
-    } else {
-      alert("Could not connect to server. Make sure it's running.");
-      peerManagerRef.current = null;
-    }
+  const cancelPairing = () => {
+    clientRef.current?.send({ type: "cancel-pairing" });
   };
 
   const joinRoom = (room: string) => {
     if (!room.trim()) return;
-    peerManagerRef.current?.joinRoom(room.trim().toUpperCase());
+    clientRef.current?.send({ type: "join-room", roomId: room, passphrase });
   };
 
   const createRoom = () => {
@@ -145,39 +218,263 @@ function Popup() {
   };
 
   const sendMessage = () => {
-    if (!inputText.trim() || !peerManagerRef.current) return;
+    if (!inputText.trim() || !clientRef.current) return;
 
-    const message = peerManagerRef.current.sendMessage(inputText.trim());
-    setMessages((prev) => [...prev, { ...message, isOwn: true }]);
+    if (editingId) {
+      clientRef.current.send({ type: "edit-message", messageId: editingId, text: inputText.trim() });
+      setEditingId(null);
+      setInputText("");
+      return;
+    }
+
+    // Inside a thread view, plain sends go to the thread
+    const replyTo = replyingTo ?? threadRootId ?? undefined;
+    // Replies to a private message stay private
+    const parent = replyTo ? messageById.get(replyTo) : undefined;
+    const to = privateTo ?? (parent?.to ? privatePeerOf(parent) : undefined);
+    clientRef.current.send({ type: "send-message", text: inputText.trim(), replyTo, to });
     setInputText("");
+    setReplyingTo(null);
   };
 
-  const leaveRoom = () => {
-    peerManagerRef.current?.disconnect();
-    peerManagerRef.current = null;
-    if (roomRefreshInterval.current) {
-      clearInterval(roomRefreshInterval.current);
+  // The other side of a private conversation
+  const privatePeerOf = (msg: ChatMessage) => (msg.isOwn ? msg.to : msg.sender);
+
+  const startPrivateMessage = (peer: PeerInfo) => {
+    setPrivateTo(peer.id);
+    setThreadRootId(null);
+    messageInputRef.current?.focus();
+  };
+
+  // undefined closes the panel; a peer ID opens it at that contact
+  const openContacts = (focus: string | null | undefined) => {
+    setShowSearch(false);
+    setContactsFocus(focus);
+  };
+
+  const startEditing = (msg: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingId(msg.id);
+    setInputText(msg.text);
+  };
+
+  const startReply = (msg: ChatMessage) => {
+    if (editingId) cancelEditing();
+    setReplyingTo(msg.id);
+  };
+
+  const openThread = (messageId: string) => {
+    setThreadRootId(threadRoots(messages).get(messageId) ?? messageId);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setInputText("");
+  };
+
+  const deleteMessage = (messageId: string) => {
+    clientRef.current?.send({ type: "delete-message", messageId });
+    if (editingId === messageId) cancelEditing();
+  };
+
+  const toggleReaction = (msg: ChatMessage, emoji: string) => {
+    const add = !msg.reactions?.[emoji]?.includes(peerId);
+    clientRef.current?.send({ type: "react", messageId: msg.id, emoji, add });
+  };
+
+  const sendFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !clientRef.current) return;
+    if (file.size > MAX_FILE_SIZE) {
+      alert(`Files larger than ${formatFileSize(MAX_FILE_SIZE)} cannot be sent.`);
+      return;
     }
-    setScreen("connect");
-    setMessages([]);
-    setPeers([]);
-    setRoomId("");
-    setRooms([]);
+
+    // Revoked once the offscreen document has read it
+    clientRef.current.send({
+      type: "send-file",
+      url: URL.createObjectURL(file),
+      name: file.name,
+      mimeType: file.type,
+    });
+  };
+
+  const cancelFile = (transferId: string) => {
+    clientRef.current?.send({ type: "cancel-file", transferId });
+  };
+
+  const leaveRoom = () => {
+    clientRef.current?.send({ type: "leave-room" });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       sendMessage();
+    } else if (e.key === "Escape" && editingId) {
+      cancelEditing();
+    } else if (e.key === "Escape" && replyingTo) {
+      setReplyingTo(null);
+    } else if (e.key === "Escape" && privateTo) {
+      setPrivateTo(null);
     }
   };
 
+  const clearHistory = () => {
+    if (!confirm(`Delete all saved messages in room ${roomId} from this device?`)) return;
+    clientRef.current?.send({ type: "clear-history" });
+    setThreadRootId(null);
+    setReplyingTo(null);
+    setEditingId(null);
+  };
+
+  const openSearchResult = async (result: SearchResult) => {
+    setShowSearch(false);
+    setThreadRootId(null);
+    if (result.roomId === roomId) {
+      setSavedRoom(null);
+    } else {
+      setSavedRoom({
+        title: `Saved history of room ${result.roomId}`,
+        messages: await loadMessages(result.roomId),
+      });
+    }
+    setHighlightId(result.message.id);
+  };
+
+  const exportTranscript = (format: TranscriptFormat) => {
+    const file = transcriptFile(createTranscript(roomId, messages), format);
+    const url = URL.createObjectURL(file);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    // Give the download a moment to start before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const importTranscript = async (file: File) => {
+    try {
+      const transcript = parseTranscript(await file.text());
+      setShowSearch(false);
+      setThreadRootId(null);
+      setSavedRoom({
+        title: `Transcript of room ${transcript.roomId} (${new Date(transcript.exportedAt).toLocaleDateString()})`,
+        messages: transcript.messages,
+      });
+    } catch (e) {
+      alert(`Could not open transcript: ${(e as Error).message}`);
+    }
+  };
+
+  const updateNotifications = (settings: RoomNotificationSettings) => {
+    setNotifications(settings);
+    saveRoomNotifications(roomId, settings);
+  };
+
   const copyRoomId = () => {
     navigator.clipboard.writeText(roomId);
   };
 
+  const openCallView = () => {
+    chrome.runtime.sendMessage({ type: "OPEN_CALL_VIEW" });
+  };
+
+  const callSize = Object.keys(mediaStreams).length;
+  const presenting = Object.keys(screenShares).some((id) => id !== peerId);
+
+  // Tab capture is allowed because the popup was opened on this tab
+  const startSharing = async (source: ShareSource) => {
+    if (source === "display") {
+      chrome.runtime.sendMessage({ type: "OPEN_CALL_VIEW", pickDisplay: true });
+      return;
+    }
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const response = await chrome.runtime.sendMessage({ type: "GET_TAB_STREAM_ID", tabId: tab?.id });
+    if (!response?.ok) {
+      alert("This tab cannot be shared. Chrome pages and the Web Store cannot be captured.");
+      return;
+    }
+    clientRef.current?.send({ type: "start-share", source, streamId: response.streamId });
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setInputText(e.target.value);
+    clientRef.current?.send({ type: "typing", active: e.target.value.trim().length > 0 });
+  };
+
   const connectedPeerCount = peers.filter((p) => p.connected).length;
 
+  const typingNames = peers
+    .filter((p) => typingPeerIds.includes(p.id))
+    .map((p) => p.name);
+  const typingText =
+    typingNames.length === 0
+      ? ""
+      : typingNames.length === 1
+      ? `${typingNames[0]} is typing…`
+      : typingNames.length === 2
+      ? `${typingNames[0]} and ${typingNames[1]} are typing…`
+      : `${typingNames.length} people are typing…`;
+
+  const roots = threadRoots(messages);
+  const replyCounts = new Map<string, number>();
+  messages.forEach((m) => {
+    const root = roots.get(m.id);
+    if (root && root !== m.id) {
+      replyCounts.set(root, (replyCounts.get(root) || 0) + 1);
+    }
+  });
+  const messageById = new Map(messages.map((m) => [m.id, m]));
+  const visibleMessages = savedRoom
+    ? savedRoom.messages
+    : threadRootId
+    ? getThread(messages, threadRootId)
+    : messages;
+  const visibleById = savedRoom
+    ? new Map(savedRoom.messages.map((m) => [m.id, m]))
+    : messageById;
+  const replyTarget = replyingTo ? messageById.get(replyingTo) : undefined;
+  const nameOf = (id: string) => peers.find((p) => p.id === id)?.name ?? "a peer who left";
+  const showContacts = contactsFocus !== undefined;
+  const verifiedIds = new Set(contacts.filter((c) => c.verified).map((c) => c.peerId));
+
+  // Receipts say "read up to message X"; a peer has seen every message at or before X
+  const messageIndex = new Map(messages.map((m, i) => [m.id, i]));
+  const seenUpTo = (peerId: string) => {
+    const read = readReceipts[peerId];
+    return read !== undefined ? messageIndex.get(read) ?? -1 : -1;
+  };
+  // Only the recipient can see a private message
+  const seenBy = (messageId: string) => {
+    const to = messageById.get(messageId)?.to;
+    return peers.filter((p) =>
+      (!to || p.id === to) && seenUpTo(p.id) >= (messageIndex.get(messageId) ?? 0)
+    );
+  };
+  // Each peer's avatar sits on the latest of our own messages they have seen
+  const seenAvatars = new Map<string, PeerInfo[]>();
+  peers.forEach((peer) => {
+    const upTo = seenUpTo(peer.id);
+    for (let i = Math.min(upTo, messages.length - 1); i >= 0; i--) {
+      if (messages[i].isOwn) {
+        const id = messages[i].id;
+        seenAvatars.set(id, [...(seenAvatars.get(id) || []), peer]);
+        break;
+      }
+    }
+  });
+
+  // Waiting for the offscreen document to report the current session
+  if (!session) {
+    return (
+      <div className="w-80 h-[500px] bg-slate-900 flex items-center justify-center text-slate-400 text-sm">
+        Loading...
+      </div>
+    );
+  }
+
   // Connect Screen
   if (screen === "connect") {
     return (
@@ -215,6 +512,35 @@ function Popup() {
               "Connect to Server"
             )}
           </button>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => startPairing("creator")}
+              disabled={!userName.trim() || isConnecting}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed text-white p-2 rounded text-xs transition-colors"
+            >
+              No server: invite
+            </button>
+            <button
+              onClick={() => startPairing("joiner")}
+              disabled={!userName.trim() || isConnecting}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed text-white p-2 rounded text-xs transition-colors"
+            >
+              No server: join
+            </button>
+          </div>
+
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="w-full text-slate-400 hover:text-white text-xs"
+          >
+            {showSettings ? "Hide network settings" : "Network settings"}
+            {iceSettings.relayOnly && " (relay-only)"}
+          </button>
+
+          {showSettings && (
+            <IceSettingsPanel settings={iceSettings} onSaved={setIceSettings} />
+          )}
         </div>
 
         <p className="text-slate-500 text-xs text-center mt-6">
@@ -236,6 +562,13 @@ function Popup() {
     );
   }
 
+  // Pairing Screen
+  if (screen === "pairing" && pairing) {
+    return (
+      <PairingScreen pairing={pairing} onApplyCode={applyPairingCode} onCancel={cancelPairing} />
+    );
+  }
+
   // Lobby Screen
   if (screen === "lobby") {
     return (
@@ -276,6 +609,13 @@ function Popup() {
               Go
             </button>
           </div>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Room passphrase (optional, encrypts chat)"
+            className="w-full mt-2 p-2 rounded bg-slate-700 text-white placeholder-slate-400 border border-slate-600 focus:border-blue-500 focus:outline-none text-sm"
+          />
         </div>
 
         {/* Active Rooms */}
@@ -283,7 +623,7 @@ function Popup() {
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-slate-300 text-sm font-medium">Active Rooms</h3>
             <button
-              onClick={() => peerManagerRef.current?.getRooms()}
+              onClick={() => clientRef.current?.send({ type: "get-rooms" })}
               className="text-slate-400 hover:text-white text-xs"
             >
               Refresh
@@ -331,34 +671,104 @@ function Popup() {
         <div className="flex items-center justify-between">
           <div>
             <div className="flex items-center gap-2">
-              <h2 className="text-white font-semibold">Room: {roomId}</h2>
-              <button
-                onClick={copyRoomId}
-                className="text-slate-400 hover:text-white transition-colors"
-                title="Copy room ID"
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="h-4 w-4"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
+              <h2 className="text-white font-semibold">
+                {pairing ? "No-server room" : `Room: ${roomId}`}
+              </h2>
+              {isEncrypted && (
+                <span
+                  className="text-green-400 text-xs"
+                  title="End-to-end encrypted with the room passphrase"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                  />
-                </svg>
-              </button>
+                  Encrypted
+                </span>
+              )}
+              {!pairing && (
+                <>
+                  <button
+                    onClick={copyRoomId}
+                    className="text-slate-400 hover:text-white transition-colors"
+                    title="Copy room ID"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-4 w-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => openContacts(showContacts ? undefined : null)}
+                    className="text-slate-400 hover:text-white transition-colors"
+                    title="Contacts and safety numbers"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-4 w-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => {
+                      setContactsFocus(undefined);
+                      setShowSearch(!showSearch);
+                    }}
+                    className="text-slate-400 hover:text-white transition-colors"
+                    title="Search saved messages"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-4 w-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                      />
+                    </svg>
+                  </button>
+                </>
+              )}
             </div>
             <p className="text-slate-400 text-xs">
-              {connectedPeerCount > 0 ? (
+              {!pairing && !serverConnected ? (
+                <span className="flex items-center gap-1">
+                  <span className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></span>
+                  Reconnecting to server...
+                </span>
+              ) : connectedPeerCount > 0 ? (
                 <span className="flex items-center gap-1">
                   <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
                   {connectedPeerCount} peer{connectedPeerCount !== 1 ? "s" : ""}{" "}
                   connected
+                  {topology === "gossip" && (
+                    <span
+                      className="text-blue-400"
+                      title="Large room: linked to a few peers, who pass messages on to the rest"
+                    >
+                      · gossip overlay
+                    </span>
+                  )}
                 </span>
               ) : (
                 <span className="flex items-center gap-1">
@@ -368,12 +778,47 @@ function Popup() {
               )}
             </p>
           </div>
-          <button
-            onClick={leaveRoom}
-            className="text-red-400 hover:text-red-300 text-sm font-medium transition-colors"
-          >
-            Leave
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={openCallView}
+              className={`text-sm font-medium transition-colors ${
+                callSize > 0 && !call ? "text-green-400 hover:text-green-300" : "text-slate-300 hover:text-white"
+              }`}
+              title={
+                callSize > 0
+                  ? `${callSize} in the call`
+                  : presenting
+                  ? "Watch the presentation"
+                  : "Start a voice or video call"
+              }
+            >
+              {call ? "In call" : callSize > 0 ? "Join call" : presenting ? "Watch" : "Call"}
+            </button>
+            {pairing && (
+              <button
+                onClick={() => startPairing("creator")}
+                className="text-blue-400 hover:text-blue-300 text-sm font-medium transition-colors"
+                title="Invite someone with a pairing code"
+              >
+                Invite
+              </button>
+            )}
+            {!pairing && (
+              <RoomMenu
+                onExport={exportTranscript}
+                onImport={importTranscript}
+                onClearHistory={clearHistory}
+                notifications={notifications}
+                onNotificationsChange={updateNotifications}
+              />
+            )}
+            <button
+              onClick={leaveRoom}
+              className="text-red-400 hover:text-red-300 text-sm font-medium transition-colors"
+            >
+              Leave
+            </button>
+          </div>
         </div>
 
         {/* Connected Peers */}
@@ -382,76 +827,244 @@ function Popup() {
             {peers.map((peer) => (
               <span
                 key={peer.id}
+                title={
+                  peer.via
+                    ? `No direct link; messages are relayed by ${peer.via}`
+                    : peer.overlay
+                    ? "Reached through the gossip overlay"
+                    : peer.status
+                }
                 className={`text-xs px-2 py-0.5 rounded-full ${
+                  screenShares[peer.id] ? "ring-1 ring-purple-400 " : ""
+                }${
                   peer.connected
                     ? "bg-green-900 text-green-300"
+                    : peer.via || peer.overlay
+                    ? "bg-blue-900 text-blue-300"
+                    : peer.status === "reconnecting"
+                    ? "bg-yellow-900 text-yellow-300"
                     : "bg-slate-700 text-slate-400"
                 }`}
               >
-                {peer.name}
+                <button
+                  onClick={() => startPrivateMessage(peer)}
+                  disabled={!peer.connected}
+                  className="enabled:hover:underline disabled:cursor-default"
+                  title={peer.connected ? `Message ${peer.name} privately` : undefined}
+                >
+                  {peer.name}
+                </button>
+                {keyWarnings.includes(peer.id) ? (
+                  <button
+                    onClick={() => openContacts(peer.id)}
+                    className="ml-1 text-red-400"
+                    title="Does not use the key of someone you met under this name"
+                  >
+                    ⚠
+                  </button>
+                ) : verifiedIds.has(peer.id) && peer.publicKey ? (
+                  <span className="ml-1" title="Verified contact">✓</span>
+                ) : null}
+                {screenShares[peer.id] && " · presenting"}
+                {peer.via
+                  ? ` (via ${peer.via})`
+                  : peer.status === "reconnecting" && " (reconnecting)"}
+                <button
+                  onClick={() => setDiagnosticsPeerId(diagnosticsPeerId === peer.id ? null : peer.id)}
+                  className="ml-1 opacity-60 hover:opacity-100"
+                  title="Connection diagnostics"
+                >
+                  ⓘ
+                </button>
               </span>
             ))}
           </div>
         )}
+        {diagnosticsPeerId && peers.some((p) => p.id === diagnosticsPeerId) && (
+          <DiagnosticsPanel
+            peerId={diagnosticsPeerId}
+            peerName={peers.find((p) => p.id === diagnosticsPeerId)!.name}
+            client={clientRef.current}
+            onClose={() => setDiagnosticsPeerId(null)}
+          />
+        )}
       </div>
 
+      {!showSearch && showContacts && (
+        <ContactsPanel
+          contacts={contacts}
+          ownPublicKey={publicKey}
+          presentIds={peers.map((p) => p.id)}
+          keyWarnings={keyWarnings}
+          initialPeerId={contactsFocus ?? null}
+          onVerify={(id, verified) => clientRef.current?.send({ type: "verify-contact", peerId: id, verified })}
+          onRemove={(id) => clientRef.current?.send({ type: "remove-contact", peerId: id })}
+          onClose={() => setContactsFocus(undefined)}
+        />
+      )}
+
+      {showSearch && (
+        <SearchPanel
+          currentRoomId={roomId}
+          onSelect={openSearchResult}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {!showSearch && !showContacts && savedRoom && (
+        <div className="flex justify-between items-center px-3 py-1 bg-slate-800 border-b border-slate-700 text-xs">
+          <span className="text-slate-300 truncate">{savedRoom.title}</span>
+          <button
+            onClick={() => setSavedRoom(null)}
+            className="text-blue-400 hover:text-blue-300"
+          >
+            Back to chat
+          </button>
+        </div>
+      )}
+
+      {!showSearch && !showContacts && !savedRoom && threadRootId && (
+        <div className="flex justify-between items-center px-3 py-1 bg-slate-800 border-b border-slate-700 text-xs">
+          <span className="text-slate-300">
+            Thread · {replyCounts.get(threadRootId) || 0}{" "}
+            {replyCounts.get(threadRootId) === 1 ? "reply" : "replies"}
+          </span>
+          <button
+            onClick={() => setThreadRootId(null)}
+            className="text-blue-400 hover:text-blue-300"
+          >
+            Back to chat
+          </button>
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-3 space-y-2">
-        {messages.length === 0 && (
+      <div className={`flex-1 overflow-y-auto p-3 space-y-2 ${showSearch || showContacts ? "hidden" : ""}`}>
+        {visibleMessages.length === 0 && (
           <div className="text-center text-slate-500 mt-10">
             <p>No messages yet</p>
-            <p className="text-sm">Share the room ID to invite others!</p>
+            <p className="text-sm">
+              {pairing ? "Use Invite to add more people" : "Share the room ID to invite others!"}
+            </p>
           </div>
         )}
-        {messages.map((msg) => (
+        {visibleMessages.map((msg) => (
           <div
             key={msg.id}
+            id={`message-${msg.id}`}
             className={`${
               msg.isSystem
                 ? "text-center"
                 : msg.isOwn
                 ? "flex justify-end"
                 : "flex justify-start"
-            }`}
+            } ${highlightId === msg.id ? "rounded ring-2 ring-yellow-400" : ""}`}
           >
             {msg.isSystem ? (
               <span className="text-slate-500 text-xs italic">{msg.text}</span>
             ) : (
-              <div
-                className={`max-w-[80%] rounded-lg p-2 ${
-                  msg.isOwn
-                    ? "bg-blue-600 text-white"
-                    : "bg-slate-700 text-white"
-                }`}
-              >
-                {!msg.isOwn && (
-                  <p className="text-xs text-slate-400 mb-1">
-                    {msg.senderName}
-                  </p>
-                )}
-                <p className="text-sm break-words">{msg.text}</p>
-                <p className="text-xs opacity-60 mt-1">
-                  {new Date(msg.timestamp).toLocaleTimeString([], {
-                    hour: "2-digit",
-                    minute: "2-digit",
-                  })}
-                </p>
-              </div>
+              <MessageBubble
+                msg={msg}
+                parent={msg.replyTo ? visibleById.get(msg.replyTo) : undefined}
+                replyCount={threadRootId || savedRoom ? 0 : replyCounts.get(msg.id) || 0}
+                ownPeerId={peerId}
+                readOnly={!!savedRoom}
+                seenBy={savedRoom ? [] : seenBy(msg.id)}
+                seenAvatars={savedRoom ? [] : seenAvatars.get(msg.id) || []}
+                onCancelFile={cancelFile}
+                onEdit={startEditing}
+                onDelete={deleteMessage}
+                onReact={toggleReaction}
+                onReply={startReply}
+                onOpenThread={openThread}
+                recipientName={msg.to ? nameOf(msg.to) : undefined}
+              />
             )}
           </div>
         ))}
         <div ref={messagesEndRef} />
       </div>
 
+      {typingText && !savedRoom && (
+        <p className="px-3 pb-1 text-slate-400 text-xs italic">{typingText}</p>
+      )}
+
       {/* Input */}
-      <div className="p-3 border-t border-slate-700 bg-slate-800">
+      <div className={`p-3 border-t border-slate-700 bg-slate-800 ${savedRoom ? "hidden" : ""}`}>
+        {editingId && (
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <span>Editing message</span>
+            <button onClick={cancelEditing} className="hover:text-white">
+              Cancel
+            </button>
+          </div>
+        )}
+        {privateTo && (
+          <div className="flex justify-between text-xs text-amber-300 mb-1">
+            <span>Private to {nameOf(privateTo)}; only they will see these messages</span>
+            <button onClick={() => setPrivateTo(null)} className="hover:text-white">
+              Back to room
+            </button>
+          </div>
+        )}
+        {replyTarget && (
+          <div className="flex justify-between gap-2 text-xs text-slate-400 mb-1">
+            <span className="truncate">
+              Replying to {replyTarget.isOwn ? "yourself" : replyTarget.senderName}:{" "}
+              <span className="italic">{messagePreview(replyTarget, 50)}</span>
+            </span>
+            <button onClick={() => setReplyingTo(null)} className="hover:text-white">
+              Cancel
+            </button>
+          </div>
+        )}
         <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            onChange={sendFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={connectedPeerCount === 0 || !!privateTo}
+            className="text-slate-400 hover:text-white disabled:text-slate-600 disabled:cursor-not-allowed transition-colors"
+            title={privateTo ? "Files are shared with the whole room" : "Share a file"}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+              />
+            </svg>
+          </button>
+          <ShareMenu
+            sharing={!!screenShares[peerId]}
+            disabled={connectedPeerCount === 0}
+            onShare={startSharing}
+            onStop={() => clientRef.current?.send({ type: "stop-share" })}
+          />
           <input
             type="text"
             value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
+            ref={messageInputRef}
+            onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
+            placeholder={
+              privateTo
+                ? `Message ${nameOf(privateTo)} privately...`
+                : threadRootId
+                ? "Reply in thread..."
+                : "Type a message..."
+            }
             className="flex-1 p-2 rounded bg-slate-700 text-white placeholder-slate-400 border border-slate-600 focus:border-blue-500 focus:outline-none text-sm"
           />
           <button
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { toDataURL } from "qrcode";
+import jsQR from "jsqr";
+
+// Rendered entirely in the popup; pairing codes never leave the machine
+export function QrCode({ text }: { text: string }) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageUrl(null);
+    setError(null);
+    toDataURL(text, { errorCorrectionLevel: "L", margin: 1, width: 240 })
+      .then((url) => {
+        if (!cancelled) setImageUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Code is too long for a QR code. Copy the text instead.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [text]);
+
+  if (error) {
+    return <p className="text-yellow-400 text-xs text-center">{error}</p>;
+  }
+  if (!imageUrl) {
+    return <div className="w-48 h-48 mx-auto rounded bg-slate-800 animate-pulse"></div>;
+  }
+  return (
+    <img
+      src={imageUrl}
+      alt="Pairing QR code"
+      className="w-48 h-48 mx-auto rounded bg-white"
+    />
+  );
+}
+
+// Decode the first QR code found in an image file
+export async function readQrImage(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Could not read the image");
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const result = jsQR(image.data, image.width, image.height);
+  if (!result) {
+    throw new Error("No QR code found in that image");
+  }
+  return result.data;
+}
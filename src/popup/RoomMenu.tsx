@@ -0,0 +1,107 @@
+import { useRef, useState } from "react";
+import { RoomNotificationSettings } from "../lib/NotificationSettings";
+import { TranscriptFormat } from "../lib/Transcript";
+
+interface Props {
+  onExport: (format: TranscriptFormat) => void;
+  onImport: (file: File) => void;
+  onClearHistory: () => void;
+  notifications: RoomNotificationSettings;
+  onNotificationsChange: (settings: RoomNotificationSettings) => void;
+}
+
+const EXPORT_OPTIONS: Array<{ format: TranscriptFormat; label: string }> = [
+  { format: "json", label: "Export as JSON" },
+  { format: "markdown", label: "Export as Markdown" },
+  { format: "html", label: "Export as HTML" },
+];
+
+export function RoomMenu({
+  onExport,
+  onImport,
+  onClearHistory,
+  notifications,
+  onNotificationsChange,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const choose = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-slate-400 hover:text-white text-sm px-1 transition-colors"
+        title="Room options"
+      >
+        ⋯
+      </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) onImport(file);
+        }}
+        className="hidden"
+      />
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-44 z-10 rounded bg-slate-800 border border-slate-700 shadow-lg py-1 text-xs">
+          {EXPORT_OPTIONS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => choose(() => onExport(format))}
+              className="block w-full text-left px-3 py-1.5 text-slate-300 hover:bg-slate-700"
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={() => choose(() => importInputRef.current?.click())}
+            className="block w-full text-left px-3 py-1.5 text-slate-300 hover:bg-slate-700"
+          >
+            Open JSON transcript…
+          </button>
+          <div className="border-t border-slate-700 my-1"></div>
+          <label className="flex items-center gap-2 px-3 py-1.5 text-slate-300 hover:bg-slate-700">
+            <input
+              type="checkbox"
+              checked={notifications.muted}
+              onChange={(e) => onNotificationsChange({ ...notifications, muted: e.target.checked })}
+            />
+            Mute room
+          </label>
+          <label
+            className={`flex items-center gap-2 px-3 py-1.5 hover:bg-slate-700 ${
+              notifications.muted ? "text-slate-500" : "text-slate-300"
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={notifications.mentionsOnly}
+              disabled={notifications.muted}
+              onChange={(e) =>
+                onNotificationsChange({ ...notifications, mentionsOnly: e.target.checked })
+              }
+            />
+            Notify only on @mentions
+          </label>
+          <div className="border-t border-slate-700 my-1"></div>
+          <button
+            onClick={() => choose(onClearHistory)}
+            className="block w-full text-left px-3 py-1.5 text-red-400 hover:bg-slate-700"
+          >
+            Clear saved history
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { messagePreview } from "../lib/ChatState";
+import { SearchResult, searchMessages } from "../lib/ChatStore";
+
+const SEARCH_DEBOUNCE = 250;
+
+interface Props {
+  currentRoomId: string;
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+export function SearchPanel({ currentRoomId, onSelect, onClose }: Props) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchMessages(query)
+        .then((found) => {
+          if (!cancelled) setResults(found);
+        })
+        .catch((e) => console.error("Search failed:", e))
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex gap-2 p-2 border-b border-slate-700">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === "Escape" && onClose()}
+          placeholder="Search saved messages..."
+          autoFocus
+          className="flex-1 p-1.5 rounded bg-slate-700 text-white placeholder-slate-400 border border-slate-600 focus:border-blue-500 focus:outline-none text-sm"
+        />
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-xs">
+          Close
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {query.trim() && !searching && results.length === 0 && (
+          <p className="text-center text-slate-500 text-sm mt-6">No matches</p>
+        )}
+        {results.map((result) => (
+          <button
+            key={`${result.roomId}:${result.message.id}`}
+            onClick={() => onSelect(result)}
+            className="w-full text-left p-2 rounded bg-slate-800 hover:bg-slate-700 transition-colors"
+          >
+            <div className="flex justify-between text-xs text-slate-400">
+              <span>
+                {result.message.isOwn ? "You" : result.message.senderName}
+                {result.roomId !== currentRoomId && ` · room ${result.roomId}`}
+              </span>
+              <span>{new Date(result.message.timestamp).toLocaleDateString()}</span>
+            </div>
+            <p className="text-sm text-white truncate">{messagePreview(result.message)}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+// SessionClient.ts - Popup and call view side of the session port to the offscreen document
+
+import { BridgeSignal } from "../lib/MediaBridge";
+import { PeerStats } from "../lib/PeerStats";
+import {
+  SESSION_PORT,
+  SessionCommand,
+  SessionEvent,
+  SessionState,
+} from "../lib/Session";
+
+const REATTACH_DELAY = 500;
+
+export class SessionClient {
+  private port: chrome.runtime.Port | null = null;
+  private closed: boolean = false;
+
+  private onStateCallback?: (state: SessionState) => void;
+  private onErrorCallback?: (message: string) => void;
+  private onFileReadCallback?: (url: string) => void;
+  private onAttachCallback?: () => void;
+  private onMediaBridgeCallback?: (signal: BridgeSignal) => void;
+  private onAudioLevelsCallback?: (levels: Record<string, number>) => void;
+  private onPeerStatsCallback?: (peerId: string, stats: PeerStats | null) => void;
+
+  // Ask background.js to start the offscreen document if needed, then attach to it
+  async attach() {
+    const response = await chrome.runtime.sendMessage({ type: "ENSURE_OFFSCREEN" });
+    if (!response?.ok) {
+      throw new Error(response?.error || "Could not start the background session");
+    }
+    if (this.closed) return;
+
+    const port = chrome.runtime.connect({ name: SESSION_PORT });
+    port.onMessage.addListener((event: SessionEvent) => this.handleEvent(event));
+    port.onDisconnect.addListener(() => {
+      this.port = null;
+      // The offscreen document went away; reattach to a fresh one
+      if (!this.closed) {
+        setTimeout(() => {
+          this.attach().catch((e) => this.onErrorCallback?.(e.message));
+        }, REATTACH_DELAY);
+      }
+    });
+    this.port = port;
+    this.onAttachCallback?.();
+  }
+
+  private handleEvent(event: SessionEvent) {
+    switch (event.type) {
+      case "state":
+        this.onStateCallback?.(event.state);
+        break;
+      case "error":
+        this.onErrorCallback?.(event.message);
+        break;
+      case "file-read":
+        this.onFileReadCallback?.(event.url);
+        break;
+      case "media-bridge":
+        this.onMediaBridgeCallback?.(event.signal);
+        break;
+      case "audio-levels":
+        this.onAudioLevelsCallback?.(event.levels);
+        break;
+      case "peer-stats":
+        this.onPeerStatsCallback?.(event.peerId, event.stats);
+        break;
+    }
+  }
+
+  send(command: SessionCommand) {
+    if (!this.port) {
+      console.warn(`Session not attached, dropping ${command.type}`);
+      return;
+    }
+    this.port.postMessage(command);
+  }
+
+  close() {
+    this.closed = true;
+    this.port?.disconnect();
+    this.port = null;
+  }
+
+  // Callbacks
+  onState(callback: (state: SessionState) => void) {
+    this.onStateCallback = callback;
+  }
+
+  onError(callback: (message: string) => void) {
+    this.onErrorCallback = callback;
+  }
+
+  onFileRead(callback: (url: string) => void) {
+    this.onFileReadCallback = callback;
+  }
+
+  // Also fires after reattaching to a new offscreen document, which has lost any per-port state
+  onAttach(callback: () => void) {
+    this.onAttachCallback = callback;
+  }
+
+  onMediaBridge(callback: (signal: BridgeSignal) => void) {
+    this.onMediaBridgeCallback = callback;
+  }
+
+  onAudioLevels(callback: (levels: Record<string, number>) => void) {
+    this.onAudioLevelsCallback = callback;
+  }
+
+  onPeerStats(callback: (peerId: string, stats: PeerStats | null) => void) {
+    this.onPeerStatsCallback = callback;
+  }
+}
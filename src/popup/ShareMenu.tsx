@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { ShareSource } from "../lib/ScreenCapture";
+
+interface Props {
+  sharing: boolean;
+  disabled: boolean;
+  onShare: (source: ShareSource) => void;
+  onStop: () => void;
+}
+
+const SHARE_OPTIONS: Array<{ source: ShareSource; label: string }> = [
+  { source: "tab", label: "Share this tab" },
+  { source: "display", label: "Share a window or screen…" },
+];
+
+export function ShareMenu({ sharing, disabled, onShare, onStop }: Props) {
+  const [open, setOpen] = useState(false);
+
+  if (sharing) {
+    return (
+      <button
+        onClick={onStop}
+        className="text-red-400 hover:text-red-300 text-xs font-medium whitespace-nowrap transition-colors"
+        title="Stop presenting to the room"
+      >
+        Stop sharing
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative flex">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="text-slate-400 hover:text-white disabled:text-slate-600 disabled:cursor-not-allowed transition-colors"
+        title="Present a tab or screen"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-5 w-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+          />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 bottom-full mb-1 w-48 z-10 rounded bg-slate-800 border border-slate-700 shadow-lg py-1 text-xs">
+          {SHARE_OPTIONS.map(({ source, label }) => (
+            <button
+              key={source}
+              onClick={() => {
+                setOpen(false);
+                onShare(source);
+              }}
+              className="block w-full text-left px-3 py-1.5 text-slate-300 hover:bg-slate-700"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
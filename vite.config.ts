@@ -30,15 +30,17 @@ export default defineConfig({
         if (existsSync(iconPath)) {
           copyFileSync(iconPath, resolve(distDir, "icon.svg"));
         }
-        // Move popup.html from nested path to dist root and fix paths
-        const nestedPopup = resolve(distDir, "src/popup/popup.html");
-        if (existsSync(nestedPopup)) {
-          let html = readFileSync(nestedPopup, "utf-8");
-          // Fix relative paths to be direct
-          html = html.replace(/\.\.\/\.\.\//g, "./");
-          writeFileSync(resolve(distDir, "popup.html"), html);
-          rmSync(resolve(distDir, "src"), { recursive: true, force: true });
+        // Move the HTML entry points from nested paths to dist root and fix paths
+        for (const page of ["popup/popup.html", "offscreen/offscreen.html", "call/call.html"]) {
+          const nested = resolve(distDir, "src", page);
+          if (existsSync(nested)) {
+            let html = readFileSync(nested, "utf-8");
+            // Fix relative paths to be direct
+            html = html.replace(/\.\.\/\.\.\//g, "./");
+            writeFileSync(resolve(distDir, page.split("/")[1]), html);
+          }
         }
+        rmSync(resolve(distDir, "src"), { recursive: true, force: true });
       },
     },
   ],
@@ -47,6 +49,8 @@ export default defineConfig({
     rollupOptions: {
       input: {
         popup: resolve(__dirname, "src/popup/popup.html"),
+        offscreen: resolve(__dirname, "src/offscreen/offscreen.html"),
+        call: resolve(__dirname, "src/call/call.html"),
       },
       output: {
         entryFileNames: "[name].js",